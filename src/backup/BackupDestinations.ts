@@ -0,0 +1,114 @@
+import * as path from 'path';
+import {
+  BackupConfig,
+  DestinationQuorum,
+  RetentionSettings,
+  StorageSettings,
+} from '../interfaces/BackupConfig';
+import { PRIMARY_DESTINATION } from '../config/ConfigurationManager';
+
+// Settings a destination brings along instead of taking them from the primary
+const DESTINATION_SETTINGS: (
+  | keyof StorageSettings
+  | keyof RetentionSettings
+)[] = [
+  'storageBackend',
+  'storagePath',
+  's3Url',
+  's3Bucket',
+  's3Path',
+  's3AccessKey',
+  's3SecretKey',
+  's3RoleArn',
+  's3RoleExternalId',
+  's3RoleSessionName',
+  's3Region',
+  's3StorageClass',
+  's3ServerSideEncryption',
+  's3KmsKeyId',
+  's3ObjectTags',
+  's3Acl',
+  's3ObjectLockMode',
+  's3ObjectLockDays',
+  's3ObjectLockLegalHold',
+  'retentionDays',
+  'retentionHourly',
+  'retentionDaily',
+  'retentionWeekly',
+  'retentionMonthly',
+  'retentionYearly',
+  'retentionKeepLast',
+  'retentionMinBackups',
+  'tiering',
+];
+
+export interface DestinationConfig {
+  name: string;
+  config: BackupConfig; // the full configuration, seen from this destination
+}
+
+/**
+ * Every place a backup is written to, primary first. Each destination gets a
+ * configuration of its own so S3Client, BackupCatalog and RetentionManager
+ * work on it unchanged; dump, naming and encryption settings are shared.
+ */
+export function destinationConfigs(config: BackupConfig): DestinationConfig[] {
+  const shared: Partial<BackupConfig> = { ...config };
+  for (const setting of DESTINATION_SETTINGS) {
+    delete shared[setting];
+  }
+  delete shared.destinations;
+  delete shared.destinationQuorum;
+
+  return [
+    { name: PRIMARY_DESTINATION, config },
+    ...(config.destinations ?? []).map(({ name, ...settings }) => ({
+      name,
+      config: { ...(shared as BackupConfig), ...settings },
+    })),
+  ];
+}
+
+// One destination by name, as the CLI commands take it
+export function findDestination(
+  config: BackupConfig,
+  name: string
+): DestinationConfig {
+  const destinations = destinationConfigs(config);
+  const destination = destinations.find((entry) => entry.name === name);
+  if (!destination) {
+    throw new Error(
+      `Unknown destination: ${name} (configured: ${destinations.map((entry) => entry.name).join(', ')})`
+    );
+  }
+  return destination;
+}
+
+// How many of `total` destinations must hold an object under the quorum
+export function requiredDestinations(
+  quorum: DestinationQuorum | undefined,
+  total: number
+): number {
+  if (quorum === 'majority') {
+    return Math.floor(total / 2) + 1;
+  }
+  if (typeof quorum === 'number') {
+    return Math.min(quorum, total);
+  }
+  return total;
+}
+
+// Backup keys are named under the primary S3_PATH; destinations keep the same
+// layout under their own path
+export function destinationKey(
+  primary: BackupConfig,
+  destination: BackupConfig,
+  key: string
+): string {
+  if (destination.s3Path === primary.s3Path) {
+    return key;
+  }
+  const prefix = (primary.s3Path || '').replace(/\/+$/, '');
+  const relative = prefix ? key.slice(prefix.length + 1) : key;
+  return path.posix.join(destination.s3Path || '', relative);
+}
@@ -0,0 +1,134 @@
+import {
+  BackupConfig,
+  CompressionCodec,
+  DumpFormat,
+} from '../interfaces/BackupConfig';
+import { COMPRESSION_CODECS } from './Compression';
+
+export interface DumpFormatDetails {
+  format: DumpFormat;
+  extension: string;
+  contentType: string;
+  compression: CompressionCodec; // applied in-process to pg_dump output
+  streamable: boolean; // pg_dump can write this format to stdout
+  prefix: boolean; // stored as one object per file under a key prefix
+}
+
+const FORMATS: Record<DumpFormat, DumpFormatDetails> = {
+  plain: {
+    format: 'plain',
+    extension: '.sql',
+    contentType: 'application/sql',
+    compression: 'none',
+    streamable: true,
+    prefix: false,
+  },
+  // Custom archives are already compressed by pg_dump
+  custom: {
+    format: 'custom',
+    extension: '.dump',
+    contentType: 'application/octet-stream',
+    compression: 'none',
+    streamable: true,
+    prefix: false,
+  },
+  tar: {
+    format: 'tar',
+    extension: '.tar',
+    contentType: 'application/x-tar',
+    compression: 'none',
+    streamable: true,
+    prefix: false,
+  },
+  // Directory entries are compressed by pg_dump, so the archive is plain tar
+  directory: {
+    format: 'directory',
+    extension: '.dir.tar',
+    contentType: 'application/x-tar',
+    compression: 'none',
+    streamable: false,
+    prefix: false,
+  },
+};
+
+const DIRECTORY_PREFIX: DumpFormatDetails = {
+  ...FORMATS.directory,
+  extension: '.dir',
+  contentType: 'application/octet-stream',
+  prefix: true,
+};
+
+const COMPRESSIBLE_FORMATS: DumpFormat[] = ['plain', 'tar'];
+
+function withCompression(
+  details: DumpFormatDetails,
+  codec: CompressionCodec
+): DumpFormatDetails {
+  if (codec === 'none' || !COMPRESSIBLE_FORMATS.includes(details.format)) {
+    return details;
+  }
+  const compression = COMPRESSION_CODECS[codec];
+  return {
+    ...details,
+    extension: `${details.extension}${compression.extension}`,
+    contentType: compression.contentType,
+    compression: codec,
+  };
+}
+
+export function getDumpFormat(config: BackupConfig): DumpFormatDetails {
+  const format = config.dumpFormat || 'plain';
+  if (format === 'directory' && config.directoryUploadMode === 'prefix') {
+    return DIRECTORY_PREFIX;
+  }
+  return withCompression(FORMATS[format], config.compression || 'gzip');
+}
+
+// pg_dumpall --globals-only writes plain SQL
+export function getGlobalsFormat(config: BackupConfig): DumpFormatDetails {
+  return withCompression(FORMATS.plain, config.compression || 'gzip');
+}
+
+// Every format and codec a backup may have been written with. Longest
+// extensions first so '.dir.tar' wins over '.tar' and '.sql.gz' over '.sql'.
+const ALL_FORMATS = [
+  ...(Object.keys(COMPRESSION_CODECS) as CompressionCodec[]).flatMap((codec) =>
+    COMPRESSIBLE_FORMATS.map((format) =>
+      withCompression(FORMATS[format], codec)
+    )
+  ),
+  FORMATS.custom,
+  FORMATS.directory,
+  DIRECTORY_PREFIX,
+].sort((a, b) => b.extension.length - a.extension.length);
+
+export function getDumpFormatForKey(key: string): DumpFormatDetails | null {
+  return (
+    ALL_FORMATS.find((details) =>
+      details.prefix
+        ? key.includes(`${details.extension}/`)
+        : key.endsWith(details.extension)
+    ) || null
+  );
+}
+
+// Splits a backup key, or the key of a directory dump prefix, into the name
+// and the format its extension stands for
+export function splitBackupKey(
+  key: string
+): { name: string; format: DumpFormatDetails } | null {
+  const format = ALL_FORMATS.find((details) => key.endsWith(details.extension));
+  return format
+    ? { name: key.slice(0, -format.extension.length), format }
+    : null;
+}
+
+// pg_dumpall --globals-only output shares the plain extension but is not a
+// database dump
+export function isGlobalsKey(key: string): boolean {
+  return key.split('/').pop()?.startsWith('postgres-globals-') ?? false;
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
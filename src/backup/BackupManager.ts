@@ -1,23 +1,106 @@
-import { BackupManager, BackupResult } from '../interfaces/BackupManager';
+import {
+  BackupManager,
+  BackupResult,
+  DatabaseBackupResult,
+} from '../interfaces/BackupManager';
 import { BackupConfig } from '../interfaces/BackupConfig';
 import { PostgreSQLClient } from '../postgres/PostgreSQLClient';
-import { S3Client } from '../s3/S3Client';
+import { StorageBackend } from '../interfaces/StorageBackend';
+import { createStorageBackend } from '../storage/StorageBackends';
+import { UploadVerificationError } from '../storage/UploadVerificationError';
 import { RetentionManager } from '../retention/RetentionManager';
+import { hasRetentionPolicy } from '../retention/RetentionPolicy';
+import { BackupCatalog } from '../catalog/BackupCatalog';
+import { BackupNaming } from '../naming/BackupNaming';
+import { BackupKind, BackupMetadata } from '../types/BackupMetadata';
+import { VersionInfo } from '../interfaces/PostgreSQLClient';
+import {
+  DumpFormatDetails,
+  getDumpFormat,
+  getGlobalsFormat,
+} from './BackupFormat';
+import { PatternMatcher } from '../utils/PatternMatcher';
+import { mapWithConcurrency } from '../utils/Concurrency';
+import { BackupEncryption } from '../encryption/BackupEncryption';
+import {
+  CHECKSUM_METADATA_KEY,
+  ChecksumStream,
+  fileChecksum,
+} from '../utils/Checksum';
+import { TeeStream } from '../utils/TeeStream';
+import { uploadRetryDelay, uploadRetryPolicy } from '../s3/StorageOptions';
+import {
+  destinationConfigs,
+  destinationKey,
+  requiredDestinations,
+} from './BackupDestinations';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
+import { PassThrough, Readable, pipeline } from 'stream';
+import * as tar from 'tar';
+
+// Incomplete multipart uploads older than this are aborted after each run
+const DEFAULT_STALE_UPLOAD_HOURS = 24;
+
+interface UploadedBackup {
+  fileSize: number;
+  rawSize?: number;
+  s3Location: string;
+  checksum?: string;
+  destinations: string[]; // names of the destinations holding the backup
+}
+
+// One place backups are written to, with the clients bound to it
+interface BackupTarget {
+  name: string;
+  config: BackupConfig;
+  storage: StorageBackend;
+  catalog: BackupCatalog;
+  retentionManager: RetentionManager;
+}
+
+// Collects the catalog entries of one run; they share its start time
+interface BackupRun {
+  startedAt: Date; // whole seconds, as carried in object names
+  versions: VersionInfo;
+  entries: BackupMetadata[];
+  targets: BackupTarget[]; // destinations reachable when the run started
+  stored: Map<string, string[]>; // s3Key to the destinations holding it
+  failedDestinations: Set<string>;
+}
+
+interface UploadedObject {
+  s3Location: string;
+  checksum?: string;
+  destinations: string[];
+}
 
 export class BackupManagerImpl implements BackupManager {
   private config: BackupConfig;
   private pgClient: PostgreSQLClient;
-  private s3Client: S3Client;
-  private retentionManager: RetentionManager;
+  private targets: BackupTarget[];
+  private naming: BackupNaming;
+  private encryption: BackupEncryption | null;
 
   constructor(config: BackupConfig) {
     this.config = config;
     this.pgClient = new PostgreSQLClient(config);
-    this.s3Client = new S3Client(config);
-    this.retentionManager = new RetentionManager(this.s3Client, config);
+    this.targets = destinationConfigs(config).map((destination) => {
+      const storage = createStorageBackend(destination.config);
+      return {
+        name: destination.name,
+        config: destination.config,
+        storage,
+        catalog: new BackupCatalog(storage, destination.config),
+        retentionManager: new RetentionManager(storage, destination.config),
+      };
+    });
+    this.naming = new BackupNaming(config);
+    this.encryption = BackupEncryption.isEnabled(config)
+      ? new BackupEncryption(config)
+      : null;
   }
 
   public validateConfiguration(): boolean {
@@ -25,9 +108,8 @@ export class BackupManagerImpl implements BackupManager {
     try {
       if (!this.config) return false;
       if (
-        !this.config.s3Bucket ||
-        !this.config.s3AccessKey ||
-        !this.config.s3SecretKey ||
+        (!this.config.s3Bucket &&
+          this.config.storageBackend !== 'filesystem') ||
         !this.config.postgresConnectionString ||
         !this.config.backupInterval
       ) {
@@ -44,55 +126,145 @@ export class BackupManagerImpl implements BackupManager {
 
   public async executeBackup(): Promise<BackupResult> {
     const start = Date.now();
-    let backupFilePath = '';
     let fileName = '';
     let fileSize = 0;
     let s3Location = '';
+    let databases: DatabaseBackupResult[] | undefined;
+    let globalsLocation = '';
+    let checksum: string | undefined;
+    let run: BackupRun | undefined;
     try {
-      // 1. Test connections
-      const pgOk = await this.pgClient.testConnection();
-      const s3Ok = await this.s3Client.testConnection();
+      // 1. Test connections (cluster runs reach PostgreSQL while discovering)
+      const pgOk =
+        this.config.backupAllDatabases ||
+        (await this.pgClient.testConnection());
+      const reachable = await this.reachableTargets();
       if (!pgOk) throw new Error('PostgreSQL connection failed');
-      if (!s3Ok) throw new Error('S3 connection failed');
 
-      // 2. Create backup file name
+      // 2. Create backup timestamp
       const now = new Date();
-      const timestamp = now
-        .toISOString()
-        .replace(/[:T]/g, '-')
-        .replace(/\..+/, '');
-      fileName = `postgres-backup-${timestamp}.sql.gz`;
-      const s3Key = path.posix.join(this.config.s3Path || '', fileName);
-      backupFilePath = path.join(os.tmpdir(), `${uuidv4()}-${fileName}`);
+      now.setUTCMilliseconds(0);
+      run = {
+        startedAt: now,
+        versions: await this.pgClient.getVersionInfo(),
+        entries: [],
+        targets: reachable,
+        stored: new Map(),
+        failedDestinations: new Set(
+          this.targets
+            .filter((target) => !reachable.includes(target))
+            .map((target) => target.name)
+        ),
+      };
 
-      // 3. Create backup
-      const backupInfo = await this.pgClient.createBackup(backupFilePath);
-      fileSize = backupInfo.fileSize;
+      if (this.config.backupAllDatabases) {
+        // 3-5. Back up every matching database under its own prefix
+        databases = await this.backupCluster(run);
+        fileSize = databases.reduce((sum, db) => sum + db.fileSize, 0);
+        const [first] = run.targets;
+        s3Location = `${first!.storage.location(first!.config.s3Path)}/`;
 
-      // 4. Upload to S3
-      s3Location = await this.s3Client.uploadFile(backupFilePath, s3Key);
+        const failed = databases.filter((db) => !db.success);
+        if (failed.length > 0) {
+          throw new Error(
+            `${failed.length} of ${databases.length} database backups failed: ${failed.map((db) => db.databaseName).join(', ')}`
+          );
+        }
+      } else {
+        const s3Key = this.naming.keyFor({
+          kind: 'dump',
+          timestamp: run.startedAt,
+          databaseName: this.pgClient.getDatabaseName(),
+        });
+        fileName = path.posix.basename(s3Key);
 
-      // 5. Cleanup local file
-      await this.pgClient.cleanupBackupFile(backupFilePath);
+        // 3-5. Dump, upload and clean up
+        const databaseStart = Date.now();
+        try {
+          const backup = await this.backupDatabase(
+            run,
+            this.pgClient,
+            s3Key,
+            fileName
+          );
+          ({ fileSize, s3Location, checksum } = backup);
+          this.recordEntry(run, {
+            kind: 'dump',
+            s3Key,
+            databaseName: this.pgClient.getDatabaseName(),
+            duration: Date.now() - databaseStart,
+            backup,
+          });
+        } catch (error: any) {
+          this.recordEntry(run, {
+            kind: 'dump',
+            s3Key,
+            databaseName: this.pgClient.getDatabaseName(),
+            duration: Date.now() - databaseStart,
+            error: error?.message || String(error),
+          });
+          throw error;
+        }
+      }
 
-      // 6. Retention cleanup
-      if (this.config.retentionDays) {
-        await this.retentionManager.cleanupExpiredBackups();
+      // 6. Cluster globals under the same timestamp as the dumps
+      if (this.config.backupGlobals) {
+        globalsLocation = await this.backupGlobals(run);
+      }
+
+      // 7. Record the run in each catalog, which retention reads
+      const recorded = await this.storeOnTargets(
+        'the backup catalog',
+        run.targets,
+        (target) => target.catalog.record(this.catalogEntries(run!, target))
+      );
+      this.markFailed(
+        run,
+        recorded.map(({ target }) => target.name)
+      );
+      run.entries = [];
+
+      for (const { target } of recorded) {
+        // 8. Retention cleanup and tiering
+        if (hasRetentionPolicy(target.config) || target.config.tiering) {
+          await target.retentionManager.cleanupExpiredBackups();
+        }
+
+        // 9. Abort multipart uploads abandoned by earlier runs
+        await this.abortStaleUploads(target);
       }
 
       const duration = Date.now() - start;
+      const failedDestinations = [...run.failedDestinations];
       return {
         success: true,
         fileName,
         fileSize,
         s3Location,
         duration,
+        ...(databases ? { databases } : {}),
+        ...(globalsLocation ? { globalsLocation } : {}),
+        ...(checksum ? { checksum } : {}),
+        ...(failedDestinations.length > 0 ? { failedDestinations } : {}),
       };
     } catch (error: any) {
-      // Cleanup temp file if exists
-      if (backupFilePath) {
-        await this.pgClient.cleanupBackupFile(backupFilePath);
+      // Failed runs are recorded too, along with whatever did succeed
+      if (run && run.entries.length > 0) {
+        const failedRun = run;
+        await Promise.all(
+          failedRun.targets.map((target) =>
+            target.catalog
+              .record(this.catalogEntries(failedRun, target))
+              .catch((recordError) => {
+                console.error(
+                  `Failed to record the backup run${this.targets.length > 1 ? ` in ${target.name}` : ''}:`,
+                  recordError
+                );
+              })
+          )
+        );
       }
+      const failedDestinations = run ? [...run.failedDestinations] : [];
       return {
         success: false,
         fileName,
@@ -100,7 +272,557 @@ export class BackupManagerImpl implements BackupManager {
         s3Location,
         duration: Date.now() - start,
         error: error?.message || String(error),
+        ...(databases ? { databases } : {}),
+        ...(failedDestinations.length > 0 ? { failedDestinations } : {}),
+      };
+    }
+  }
+
+  // Destinations that answer; too few of them fails the run before dumping
+  private async reachableTargets(): Promise<BackupTarget[]> {
+    const reachable: BackupTarget[] = [];
+    for (const target of this.targets) {
+      if (await target.storage.testConnection()) {
+        reachable.push(target);
+      }
+    }
+    if (
+      reachable.length <
+      requiredDestinations(this.config.destinationQuorum, this.targets.length)
+    ) {
+      if (this.targets.length === 1) {
+        throw new Error('S3 connection failed');
+      }
+      const unreachable = this.targets
+        .filter((target) => !reachable.includes(target))
+        .map((target) => target.name);
+      throw new Error(`S3 connection failed: ${unreachable.join(', ')}`);
+    }
+    return reachable;
+  }
+
+  /**
+   * Runs one write on every target at once and returns those where it
+   * succeeded, as long as that still meets the destination quorum. With a
+   * single destination its error is thrown as is.
+   */
+  private async storeOnTargets<T>(
+    subject: string,
+    targets: BackupTarget[],
+    write: (target: BackupTarget, index: number) => Promise<T>
+  ): Promise<{ target: BackupTarget; value: T }[]> {
+    const results = await Promise.allSettled(targets.map(write));
+    const stored: { target: BackupTarget; value: T }[] = [];
+    const failures: string[] = [];
+    let verificationFailed = false;
+    for (const [index, result] of results.entries()) {
+      const target = targets[index]!;
+      if (result.status === 'fulfilled') {
+        stored.push({ target, value: result.value });
+      } else if (this.targets.length === 1) {
+        throw result.reason;
+      } else {
+        const message =
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason);
+        failures.push(`${target.name}: ${message}`);
+        verificationFailed ||= result.reason instanceof UploadVerificationError;
+        console.warn(`Failed to write ${subject} to ${target.name}:`, message);
+      }
+    }
+
+    const required = requiredDestinations(
+      this.config.destinationQuorum,
+      this.targets.length
+    );
+    if (stored.length < required) {
+      const message = `${subject} reached ${stored.length} of ${this.targets.length} destinations, ${required} required: ${failures.join('; ')}`;
+      // Writing again may fix a destination that stored a bad copy
+      throw verificationFailed
+        ? new UploadVerificationError(message)
+        : new Error(message);
+    }
+    return stored;
+  }
+
+  private markFailed(run: BackupRun, stored: string[]): void {
+    for (const target of run.targets) {
+      if (!stored.includes(target.name)) {
+        run.failedDestinations.add(target.name);
+      }
+    }
+  }
+
+  // The run as one destination saw it: its own keys, and backups that never
+  // reached it marked failed
+  private catalogEntries(
+    run: BackupRun,
+    target: BackupTarget
+  ): BackupMetadata[] {
+    return run.entries.map((entry) => {
+      const s3Key = this.keyFor(target, entry.s3Key);
+      const destinations = run.stored.get(entry.s3Key);
+      if (
+        entry.status !== 'completed' ||
+        !destinations ||
+        destinations.includes(target.name)
+      ) {
+        return { ...entry, s3Key };
+      }
+      return {
+        ...entry,
+        s3Key,
+        status: 'failed',
+        error: `Upload to ${target.name} failed`,
+      };
+    });
+  }
+
+  private keyFor(target: BackupTarget, s3Key: string): string {
+    return destinationKey(this.config, target.config, s3Key);
+  }
+
+  // Housekeeping only, so a failure does not fail the backup
+  private async abortStaleUploads(target: BackupTarget): Promise<void> {
+    const hours = this.config.staleUploadHours ?? DEFAULT_STALE_UPLOAD_HOURS;
+    if (hours === 0) {
+      return;
+    }
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const prefix = target.config.s3Path ? `${target.config.s3Path}/` : '';
+    try {
+      const aborted = await target.storage.abortStaleUploads(prefix, cutoff);
+      if (aborted > 0) {
+        console.log(
+          `Aborted ${aborted} incomplete uploads older than ${hours} hours`
+        );
+      }
+    } catch (error) {
+      console.warn('Failed to clean up incomplete uploads:', error);
+    }
+  }
+
+  private recordEntry(
+    run: BackupRun,
+    entry: {
+      kind: BackupKind;
+      s3Key: string;
+      databaseName: string;
+      duration: number;
+      backup?: UploadedBackup;
+      error?: string;
+    }
+  ): void {
+    const { backup } = entry;
+    if (backup) {
+      run.stored.set(entry.s3Key, backup.destinations);
+      this.markFailed(run, backup.destinations);
+    }
+    const format =
+      entry.kind === 'globals'
+        ? getGlobalsFormat(this.config)
+        : getDumpFormat(this.config);
+    run.entries.push({
+      fileName: path.posix.basename(entry.s3Key),
+      timestamp: run.startedAt,
+      databaseName: entry.databaseName,
+      fileSize: backup?.fileSize ?? 0,
+      s3Key: entry.s3Key,
+      kind: entry.kind,
+      format: format.format,
+      compression: format.compression,
+      prefix: format.prefix,
+      status: backup ? 'completed' : 'failed',
+      duration: entry.duration,
+      ...run.versions,
+      ...(backup?.rawSize !== undefined ? { rawSize: backup.rawSize } : {}),
+      ...(backup?.rawSize && backup.fileSize
+        ? { compressionRatio: backup.rawSize / backup.fileSize }
+        : {}),
+      ...(backup?.checksum ? { checksum: backup.checksum } : {}),
+      ...(entry.error ? { error: entry.error } : {}),
+    });
+  }
+
+  private async backupGlobals(run: BackupRun): Promise<string> {
+    const start = Date.now();
+    const format = getGlobalsFormat(this.config);
+    const s3Key = this.naming.keyFor({
+      kind: 'globals',
+      timestamp: run.startedAt,
+    });
+    const dump = this.pgClient.createGlobalsStream();
+    const upload = this.uploadBackupStream(
+      run.targets,
+      dump.stream,
+      s3Key,
+      format.contentType
+    ).catch((error) => {
+      dump.stream.destroy();
+      throw error;
+    });
+
+    const [backupInfo, uploaded] = await Promise.all([dump.completion, upload]);
+    this.recordEntry(run, {
+      kind: 'globals',
+      s3Key,
+      databaseName: '',
+      duration: Date.now() - start,
+      backup: {
+        fileSize: backupInfo.fileSize,
+        ...(backupInfo.rawSize !== undefined
+          ? { rawSize: backupInfo.rawSize }
+          : {}),
+        ...uploaded,
+      },
+    });
+    return uploaded.s3Location;
+  }
+
+  private async backupCluster(run: BackupRun): Promise<DatabaseBackupResult[]> {
+    const matcher = new PatternMatcher(
+      this.config.includeDatabases,
+      this.config.excludeDatabases
+    );
+    const databaseNames = (await this.pgClient.listDatabases()).filter((name) =>
+      matcher.matches(name)
+    );
+    if (databaseNames.length === 0) {
+      throw new Error('No databases matched the include/exclude patterns');
+    }
+
+    return mapWithConcurrency(
+      databaseNames,
+      this.config.databaseConcurrency || 1,
+      async (databaseName) => {
+        const start = Date.now();
+        const s3Key = this.naming.keyFor({
+          kind: 'dump',
+          timestamp: run.startedAt,
+          databaseName,
+        });
+        const fileName = path.posix.basename(s3Key);
+        const pgClient = new PostgreSQLClient({
+          ...this.config,
+          postgresConnectionString:
+            this.pgClient.getConnectionString(databaseName),
+        });
+
+        try {
+          const backup = await this.backupDatabase(
+            run,
+            pgClient,
+            s3Key,
+            fileName
+          );
+          const { fileSize, s3Location, checksum } = backup;
+          const failedDestinations = run.targets
+            .filter((target) => !backup.destinations.includes(target.name))
+            .map((target) => target.name);
+          this.recordEntry(run, {
+            kind: 'dump',
+            s3Key,
+            databaseName,
+            duration: Date.now() - start,
+            backup,
+          });
+          return {
+            databaseName,
+            success: true,
+            fileName,
+            fileSize,
+            s3Location,
+            duration: Date.now() - start,
+            ...(checksum ? { checksum } : {}),
+            ...(failedDestinations.length > 0 ? { failedDestinations } : {}),
+          };
+        } catch (error: any) {
+          this.recordEntry(run, {
+            kind: 'dump',
+            s3Key,
+            databaseName,
+            duration: Date.now() - start,
+            error: error?.message || String(error),
+          });
+          return {
+            databaseName,
+            success: false,
+            fileName,
+            fileSize: 0,
+            s3Location: '',
+            duration: Date.now() - start,
+            error: error?.message || String(error),
+          };
+        }
+      }
+    );
+  }
+
+  private async backupDatabase(
+    run: BackupRun,
+    pgClient: PostgreSQLClient,
+    s3Key: string,
+    fileName: string
+  ): Promise<UploadedBackup> {
+    const format = getDumpFormat(this.config);
+    let backupFilePath = '';
+    let backupDirPath = '';
+    try {
+      let fileSize: number;
+      let rawSize: number | undefined;
+      let uploaded: UploadedObject;
+
+      if (!format.streamable) {
+        // Directory dumps always land on disk first
+        backupDirPath = path.join(os.tmpdir(), `${randomUUID()}-${fileName}`);
+        const backupInfo = await pgClient.createBackup(backupDirPath);
+        fileSize = backupInfo.fileSize;
+        rawSize = backupInfo.rawSize;
+
+        // Upload as one archive or as a prefix of objects
+        uploaded = await this.uploadDirectory(
+          run.targets,
+          backupDirPath,
+          s3Key,
+          format
+        );
+
+        await pgClient.cleanupBackupDirectory(backupDirPath);
+      } else if (this.config.uploadMode === 'file') {
+        backupFilePath = path.join(os.tmpdir(), `${randomUUID()}-${fileName}`);
+
+        const backupInfo = await pgClient.createBackup(backupFilePath);
+        fileSize = backupInfo.fileSize;
+        rawSize = backupInfo.rawSize;
+
+        // Encrypted objects are hashed again after encryption
+        if (this.encryption) {
+          uploaded = await this.uploadBackupStream(
+            run.targets,
+            fs.createReadStream(backupFilePath),
+            s3Key,
+            format.contentType
+          );
+        } else {
+          const { checksum } = backupInfo;
+          const stored = await this.storeOnTargets(
+            s3Key,
+            run.targets,
+            (target) =>
+              checksum
+                ? target.storage.uploadFile(
+                    backupFilePath,
+                    this.keyFor(target, s3Key),
+                    format.contentType,
+                    { [CHECKSUM_METADATA_KEY]: checksum }
+                  )
+                : target.storage.uploadFile(
+                    backupFilePath,
+                    this.keyFor(target, s3Key),
+                    format.contentType
+                  )
+          );
+          uploaded = {
+            s3Location: stored[0]!.value,
+            destinations: stored.map(({ target }) => target.name),
+            ...(checksum ? { checksum } : {}),
+          };
+        }
+
+        await pgClient.cleanupBackupFile(backupFilePath);
+      } else {
+        // Stream pg_dump output straight into a multipart upload
+        return await this.streamBackup(run, pgClient, s3Key, format);
+      }
+
+      return {
+        fileSize,
+        ...(rawSize !== undefined ? { rawSize } : {}),
+        ...uploaded,
       };
+    } catch (error) {
+      // Cleanup temp file if exists
+      if (backupFilePath) {
+        await pgClient.cleanupBackupFile(backupFilePath);
+      }
+      if (backupDirPath) {
+        await pgClient.cleanupBackupDirectory(backupDirPath);
+      }
+      throw error;
+    }
+  }
+
+  // A streamed dump cannot be sent twice, so an upload that fails
+  // verification is retried by dumping the database again
+  private async streamBackup(
+    run: BackupRun,
+    pgClient: PostgreSQLClient,
+    s3Key: string,
+    format: DumpFormatDetails
+  ): Promise<UploadedBackup> {
+    const retry = uploadRetryPolicy(this.config);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.streamBackupOnce(run, pgClient, s3Key, format);
+      } catch (error) {
+        if (
+          !(error instanceof UploadVerificationError) ||
+          attempt >= retry.attempts
+        ) {
+          throw error;
+        }
+        const delay = uploadRetryDelay(retry, attempt);
+        console.warn(
+          `${error.message} (attempt ${attempt}/${retry.attempts}), dumping and uploading again in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async streamBackupOnce(
+    run: BackupRun,
+    pgClient: PostgreSQLClient,
+    s3Key: string,
+    format: DumpFormatDetails
+  ): Promise<UploadedBackup> {
+    const dump = pgClient.createBackupStream();
+    const upload = this.uploadBackupStream(
+      run.targets,
+      dump.stream,
+      s3Key,
+      format.contentType
+    ).catch((error) => {
+      // Stop pg_dump if the upload gives up before the dump is finished
+      dump.stream.destroy();
+      throw error;
+    });
+
+    const [backupInfo, uploaded] = await Promise.all([
+      dump.completion,
+      upload,
+    ]).catch(async (error) => {
+      if (error instanceof UploadVerificationError) {
+        // The dump was read to the end; let it exit before the next one
+        await dump.completion.catch(() => undefined);
+      }
+      throw error;
+    });
+    return {
+      fileSize: backupInfo.fileSize,
+      ...(backupInfo.rawSize !== undefined
+        ? { rawSize: backupInfo.rawSize }
+        : {}),
+      ...uploaded,
+    };
+  }
+
+  private async uploadDirectory(
+    targets: BackupTarget[],
+    dirPath: string,
+    s3Key: string,
+    format: DumpFormatDetails
+  ): Promise<UploadedObject> {
+    if (!format.prefix) {
+      const archive = tar
+        .create({ cwd: dirPath }, ['.'])
+        .pipe(new PassThrough());
+      return this.uploadBackupStream(
+        targets,
+        archive,
+        s3Key,
+        format.contentType
+      );
+    }
+
+    // A destination that misses one file does not hold the backup
+    let remaining = targets;
+    for (const entry of fs.readdirSync(dirPath)) {
+      const filePath = path.join(dirPath, entry);
+      const uploaded = await this.uploadBackupStream(
+        remaining,
+        fs.createReadStream(filePath),
+        path.posix.join(s3Key, entry),
+        format.contentType,
+        this.encryption ? undefined : await fileChecksum(filePath)
+      );
+      remaining = remaining.filter((target) =>
+        uploaded.destinations.includes(target.name)
+      );
+    }
+    const location = remaining[0] ?? targets[0]!;
+    return {
+      s3Location: `${location.storage.location(this.keyFor(location, s3Key))}/`,
+      destinations: remaining.map((target) => target.name),
+    };
+  }
+
+  // Encrypted objects carry their wrapped data key in the object metadata.
+  // The checksum covers the stored bytes; unless the caller hashed a file
+  // beforehand it is only known once the upload has finished. Attaching it
+  // to the object would copy every backup a second time, so it is recorded
+  // in the backup catalog only. The stream is dumped, encrypted and hashed
+  // once and teed to every destination.
+  private async uploadBackupStream(
+    targets: BackupTarget[],
+    stream: Readable,
+    s3Key: string,
+    contentType: string,
+    knownChecksum?: string
+  ): Promise<UploadedObject> {
+    const hasher = new ChecksumStream();
+    const encrypted = this.encryption ? this.encryption.encrypt(stream) : null;
+    const hashed = pipeline(
+      encrypted?.stream ?? stream,
+      hasher,
+      () => undefined
+    );
+    const tee =
+      targets.length > 1 ? new TeeStream(hashed, targets.length) : null;
+
+    const uploaded = await this.storeOnTargets(
+      s3Key,
+      targets,
+      (target, index) => {
+        const body = tee ? tee.branches[index]! : hashed;
+        const upload = encrypted
+          ? target.storage.uploadStream(
+              body,
+              this.keyFor(target, s3Key),
+              'application/octet-stream',
+              encrypted.metadata
+            )
+          : knownChecksum
+            ? target.storage.uploadStream(
+                body,
+                this.keyFor(target, s3Key),
+                contentType,
+                { [CHECKSUM_METADATA_KEY]: knownChecksum }
+              )
+            : target.storage.uploadStream(
+                body,
+                this.keyFor(target, s3Key),
+                contentType
+              );
+        return upload.catch((error) => {
+          // Let the other destinations keep reading
+          tee?.detach(tee.branches[index]!);
+          throw error;
+        });
+      }
+    );
+
+    const checksum = hasher.digest;
+    if (knownChecksum && checksum !== knownChecksum) {
+      throw new Error(
+        `Checksum mismatch for ${s3Key}: the file changed during the upload`
+      );
     }
+    return {
+      s3Location: uploaded[0]!.value,
+      destinations: uploaded.map(({ target }) => target.name),
+      ...(checksum ? { checksum } : {}),
+    };
   }
 }
@@ -0,0 +1,37 @@
+import { StorageObject } from '../interfaces/StorageBackend';
+import {
+  DumpFormatDetails,
+  getDumpFormatForKey,
+  isGlobalsKey,
+} from './BackupFormat';
+
+export interface BackupCandidate extends StorageObject {
+  format: DumpFormatDetails;
+  checksum?: string; // as recorded in the catalog; whole-object backups only
+}
+
+// Collapse directory dumps uploaded as a prefix into a single candidate
+export function groupBackups(objects: StorageObject[]): BackupCandidate[] {
+  const candidates = new Map<string, BackupCandidate>();
+  for (const object of objects) {
+    const format = getDumpFormatForKey(object.key);
+    if (!format || isGlobalsKey(object.key)) continue;
+
+    const key = format.prefix
+      ? object.key.slice(
+          0,
+          object.key.indexOf(`${format.extension}/`) + format.extension.length
+        )
+      : object.key;
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.size += object.size;
+      if (object.lastModified > existing.lastModified) {
+        existing.lastModified = object.lastModified;
+      }
+    } else {
+      candidates.set(key, { ...object, key, format });
+    }
+  }
+  return [...candidates.values()];
+}
@@ -0,0 +1,97 @@
+import * as zlib from 'zlib';
+import { Transform } from 'stream';
+import { CompressionCodec } from '../interfaces/BackupConfig';
+
+export interface CompressionDetails {
+  codec: CompressionCodec;
+  extension: string; // appended to the dump format extension
+  contentType: string;
+  minLevel: number;
+  maxLevel: number;
+  defaultLevel: number;
+}
+
+export const COMPRESSION_CODECS: Record<CompressionCodec, CompressionDetails> =
+  {
+    gzip: {
+      codec: 'gzip',
+      extension: '.gz',
+      contentType: 'application/gzip',
+      minLevel: 1,
+      maxLevel: 9,
+      defaultLevel: 6,
+    },
+    zstd: {
+      codec: 'zstd',
+      extension: '.zst',
+      contentType: 'application/zstd',
+      minLevel: 1,
+      maxLevel: 22,
+      defaultLevel: 3,
+    },
+    // Brotli defaults to quality 11, far too slow for large dumps
+    brotli: {
+      codec: 'brotli',
+      extension: '.br',
+      contentType: 'application/x-brotli',
+      minLevel: 0,
+      maxLevel: 11,
+      defaultLevel: 6,
+    },
+    none: {
+      codec: 'none',
+      extension: '',
+      contentType: 'application/octet-stream',
+      minLevel: 0,
+      maxLevel: 0,
+      defaultLevel: 0,
+    },
+  };
+
+// zlib gained zstd in Node.js 22.15
+export function isCompressionSupported(codec: CompressionCodec): boolean {
+  return codec !== 'zstd' || typeof zlib.createZstdCompress === 'function';
+}
+
+export function createCompressor(
+  codec: CompressionCodec,
+  level: number = COMPRESSION_CODECS[codec].defaultLevel
+): Transform | null {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGzip({ level });
+    case 'zstd':
+      assertSupported(codec);
+      return zlib.createZstdCompress({
+        params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+      });
+    case 'brotli':
+      return zlib.createBrotliCompress({
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case 'none':
+      return null;
+  }
+}
+
+export function createDecompressor(codec: CompressionCodec): Transform | null {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'zstd':
+      assertSupported(codec);
+      return zlib.createZstdDecompress();
+    case 'brotli':
+      return zlib.createBrotliDecompress();
+    case 'none':
+      return null;
+  }
+}
+
+function assertSupported(codec: CompressionCodec): void {
+  if (!isCompressionSupported(codec)) {
+    throw new Error(
+      `${codec} compression requires Node.js 22.15 or newer (running ${process.version})`
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  COMPRESSION_CODECS,
+  createCompressor,
+  createDecompressor,
+  isCompressionSupported,
+} from '../Compression';
+import { CompressionCodec } from '../../interfaces/BackupConfig';
+import { Readable, Transform } from 'stream';
+
+async function readBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function run(input: Buffer, transform: Transform | null): Promise<Buffer> {
+  const source = Readable.from([input]);
+  return readBuffer(transform ? source.pipe(transform) : source);
+}
+
+describe('Compression', () => {
+  const plaintext = Buffer.from('INSERT INTO t VALUES (1);\n'.repeat(500));
+
+  const codecs = (Object.keys(COMPRESSION_CODECS) as CompressionCodec[]).filter(
+    (codec) => codec !== 'none'
+  );
+
+  it.each(codecs)('round-trips %s in-process', async (codec) => {
+    if (!isCompressionSupported(codec)) {
+      return; // zstd needs Node.js 22.15 or newer
+    }
+    const compressed = await run(plaintext, createCompressor(codec, 1));
+
+    expect(compressed.length).toBeLessThan(plaintext.length);
+    expect(await run(compressed, createDecompressor(codec))).toEqual(plaintext);
+  });
+
+  it('passes data through untouched without a codec', () => {
+    expect(createCompressor('none')).toBeNull();
+    expect(createDecompressor('none')).toBeNull();
+  });
+
+  it('explains when zstd is not available', () => {
+    if (isCompressionSupported('zstd')) {
+      return;
+    }
+    expect(() => createCompressor('zstd')).toThrow(
+      /zstd compression requires Node.js 22.15 or newer/
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import { StorageBackend } from '../interfaces/StorageBackend';
+import { PreconditionFailedError } from '../storage/PreconditionFailedError';
+import { BackupConfig } from '../interfaces/BackupConfig';
+import {
+  BackupCatalogDocument,
+  BackupKind,
+  BackupMetadata,
+} from '../types/BackupMetadata';
+import { getDumpFormatForKey, isGlobalsKey } from '../backup/BackupFormat';
+import { BackupCandidate, groupBackups } from '../backup/BackupObjects';
+import { BackupNaming } from '../naming/BackupNaming';
+import * as path from 'path';
+
+export const CATALOG_FILE_NAME = 'catalog.json';
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+interface CatalogSnapshot {
+  backups: BackupMetadata[];
+  etag: string;
+}
+
+/**
+ * JSON catalog of every backup, stored next to the backups. Each run rewrites
+ * it with a single conditional PUT, so concurrent writers retry instead of
+ * overwriting each other. Buckets without a catalog are read from the object
+ * listing until the first write, which seeds the catalog from it.
+ */
+export class BackupCatalog {
+  private storage: StorageBackend;
+  private config: BackupConfig;
+  private catalogKey: string;
+  private naming: BackupNaming;
+
+  constructor(storage: StorageBackend, config: BackupConfig) {
+    this.storage = storage;
+    this.config = config;
+    this.naming = new BackupNaming(config);
+    this.catalogKey = path.posix.join(config.s3Path || '', CATALOG_FILE_NAME);
+  }
+
+  public async load(): Promise<BackupMetadata[]> {
+    const snapshot = await this.read();
+    if (snapshot) {
+      return snapshot.backups;
+    }
+    console.log(
+      `No backup catalog at ${this.catalogKey}; reading the object listing`
+    );
+    return this.fromListing();
+  }
+
+  // Completed database dumps, newest first, as restore and verify see them
+  public async listBackups(database?: string): Promise<BackupCandidate[]> {
+    const backups = (await this.load())
+      .filter(
+        (entry) =>
+          entry.kind === 'dump' &&
+          entry.status === 'completed' &&
+          (!database || entry.databaseName === database)
+      )
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    const candidates: BackupCandidate[] = [];
+    for (const entry of backups) {
+      const format = getDumpFormatForKey(
+        entry.prefix ? `${entry.s3Key}/` : entry.s3Key
+      );
+      if (format) {
+        candidates.push({
+          key: entry.s3Key,
+          lastModified: entry.timestamp,
+          size: entry.fileSize,
+          format,
+          ...(entry.checksum && !entry.prefix
+            ? { checksum: entry.checksum }
+            : {}),
+        });
+      }
+    }
+    return candidates;
+  }
+
+  public async record(entries: BackupMetadata[]): Promise<void> {
+    const keys = new Set(entries.map((entry) => entry.s3Key));
+    await this.update((backups) => [
+      ...backups.filter((entry) => !keys.has(entry.s3Key)),
+      ...entries,
+    ]);
+  }
+
+  public async remove(s3Keys: string[]): Promise<void> {
+    const keys = new Set(s3Keys);
+    await this.update((backups) =>
+      backups.filter((entry) => !keys.has(entry.s3Key))
+    );
+  }
+
+  // Keep what the catalog knows about objects that still exist, add entries
+  // for untracked objects and drop entries whose objects are gone
+  public async rebuild(): Promise<BackupMetadata[]> {
+    const listed = await this.fromListing();
+    return this.update((backups) => {
+      const known = new Map(backups.map((entry) => [entry.s3Key, entry]));
+      return listed.map((entry) => {
+        const existing = known.get(entry.s3Key);
+        return existing ? { ...existing, fileSize: entry.fileSize } : entry;
+      });
+    });
+  }
+
+  private async update(
+    mutate: (backups: BackupMetadata[]) => BackupMetadata[]
+  ): Promise<BackupMetadata[]> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const snapshot = await this.read();
+        const backups = mutate(
+          snapshot ? snapshot.backups : await this.fromListing()
+        ).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const document: BackupCatalogDocument = {
+          version: 1,
+          updatedAt: new Date().toISOString(),
+          backups,
+        };
+
+        try {
+          await this.storage.putObject(
+            this.catalogKey,
+            JSON.stringify(document, null, 2),
+            'application/json',
+            snapshot ? { ifMatch: snapshot.etag } : { ifNoneMatch: '*' }
+          );
+          return backups;
+        } catch (error) {
+          if (
+            !(error instanceof PreconditionFailedError) ||
+            attempt >= MAX_UPDATE_ATTEMPTS
+          ) {
+            throw error;
+          }
+          console.warn(
+            `Backup catalog changed during update, retrying (${attempt}/${MAX_UPDATE_ATTEMPTS})`
+          );
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to update backup catalog: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async read(): Promise<CatalogSnapshot | null> {
+    const object = await this.storage.readObject(this.catalogKey);
+    if (!object) {
+      return null;
+    }
+
+    let document: BackupCatalogDocument;
+    try {
+      document = JSON.parse(object.body);
+    } catch {
+      throw new Error(
+        `Backup catalog ${this.catalogKey} is not valid JSON; run "catalog rebuild" to recreate it`
+      );
+    }
+    if (document.version !== 1 || !Array.isArray(document.backups)) {
+      throw new Error(
+        `Backup catalog ${this.catalogKey} has an unsupported layout`
+      );
+    }
+
+    return {
+      backups: document.backups.map((entry) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp),
+      })),
+      etag: object.etag,
+    };
+  }
+
+  private async fromListing(): Promise<BackupMetadata[]> {
+    const objects = (await this.storage.listObjects(this.config.s3Path)).filter(
+      (object) => object.key !== this.catalogKey
+    );
+
+    const candidates: (BackupCandidate & { kind: BackupKind })[] = groupBackups(
+      objects
+    ).map((candidate) => ({
+      ...candidate,
+      kind: 'dump',
+    }));
+    for (const object of objects.filter((o) => isGlobalsKey(o.key))) {
+      const format = getDumpFormatForKey(object.key);
+      if (format) {
+        candidates.push({ ...object, format, kind: 'globals' });
+      }
+    }
+
+    const entries: BackupMetadata[] = [];
+    for (const candidate of candidates) {
+      const name = this.naming.parse(candidate.key);
+      if (!name) continue;
+
+      entries.push({
+        fileName: path.posix.basename(candidate.key),
+        timestamp: name.timestamp,
+        databaseName:
+          candidate.kind === 'globals'
+            ? ''
+            : (name.databaseName ?? this.connectionDatabaseName()),
+        fileSize: candidate.size,
+        s3Key: candidate.key,
+        kind: candidate.kind,
+        format: candidate.format.format,
+        compression: candidate.format.compression,
+        prefix: candidate.format.prefix,
+        status: 'completed',
+      });
+    }
+    return entries;
+  }
+
+  // Names without {db} belong to the database of the connection string
+  private connectionDatabaseName(): string {
+    try {
+      return decodeURIComponent(
+        new URL(this.config.postgresConnectionString).pathname.slice(1)
+      );
+    } catch {
+      return '';
+    }
+  }
+}
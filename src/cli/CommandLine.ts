@@ -0,0 +1,243 @@
+import { parseArgs } from 'util';
+import { BackupSelector } from '../interfaces/RestoreManager';
+import { VerifySelector } from '../interfaces/VerifyManager';
+import { PresignSelector } from '../interfaces/PresignManager';
+import { RetentionReportFormat } from '../retention/RetentionReport';
+import { PRIMARY_DESTINATION } from '../config/ConfigurationManager';
+
+export type CliCommand =
+  | { command: 'backup' }
+  | {
+      command: 'restore';
+      selector: BackupSelector;
+      target?: string;
+      database?: string;
+      force: boolean;
+    }
+  | { command: 'verify'; selector: VerifySelector; database?: string }
+  | {
+      command: 'presign';
+      selector: PresignSelector;
+      database?: string;
+      expiresIn?: number;
+      requestedBy?: string;
+    }
+  | { command: 'catalog'; action: 'rebuild'; destination?: string }
+  | {
+      command: 'retention';
+      dryRun: boolean;
+      format: RetentionReportFormat;
+      output?: string;
+      destination?: string; // default: the primary destination
+    }
+  | {
+      command: 'sync';
+      source: string;
+      target: string;
+      prune: boolean;
+      dryRun: boolean;
+      database?: string;
+    };
+
+export function parseCommandLine(argv: string[]): CliCommand {
+  const [command = 'backup', ...rest] = argv;
+
+  switch (command) {
+    case 'backup':
+      return { command: 'backup' };
+    case 'restore':
+      return parseRestore(rest);
+    case 'verify':
+      return parseVerify(rest);
+    case 'presign':
+      return parsePresign(rest);
+    case 'catalog':
+      return parseCatalog(rest);
+    case 'retention':
+      return parseRetention(rest);
+    case 'sync':
+      return parseSync(rest);
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+function parseRestore(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      key: { type: 'string' },
+      latest: { type: 'boolean', default: false },
+      before: { type: 'string' },
+      target: { type: 'string' },
+      database: { type: 'string' },
+      force: { type: 'boolean', default: false },
+    },
+  });
+
+  const chosen = [values.key, values.latest || undefined, values.before];
+  if (chosen.filter((value) => value !== undefined).length !== 1) {
+    throw new Error(
+      'restore requires exactly one of --key, --latest or --before'
+    );
+  }
+
+  let selector: BackupSelector;
+  if (values.key) {
+    selector = { type: 'key', key: values.key };
+  } else if (values.before) {
+    const timestamp = new Date(values.before);
+    if (isNaN(timestamp.getTime())) {
+      throw new Error('--before must be a valid ISO 8601 timestamp');
+    }
+    selector = { type: 'before', timestamp };
+  } else {
+    selector = { type: 'latest' };
+  }
+
+  return {
+    command: 'restore',
+    selector,
+    ...(values.target ? { target: values.target } : {}),
+    ...(values.database ? { database: values.database } : {}),
+    force: values.force ?? false,
+  };
+}
+
+function parseVerify(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      key: { type: 'string' },
+      latest: { type: 'boolean', default: false },
+      all: { type: 'boolean', default: false },
+      database: { type: 'string' },
+    },
+  });
+
+  const chosen = [
+    values.key,
+    values.latest || undefined,
+    values.all || undefined,
+  ];
+  if (chosen.filter((value) => value !== undefined).length !== 1) {
+    throw new Error('verify requires exactly one of --key, --latest or --all');
+  }
+
+  let selector: VerifySelector;
+  if (values.key) {
+    selector = { type: 'key', key: values.key };
+  } else if (values.all) {
+    selector = { type: 'all' };
+  } else {
+    selector = { type: 'latest' };
+  }
+
+  return {
+    command: 'verify',
+    selector,
+    ...(values.database ? { database: values.database } : {}),
+  };
+}
+
+function parsePresign(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      key: { type: 'string' },
+      latest: { type: 'boolean', default: false },
+      database: { type: 'string' },
+      expires: { type: 'string' },
+      'requested-by': { type: 'string' },
+    },
+  });
+
+  if ((values.key === undefined) === !values.latest) {
+    throw new Error('presign requires exactly one of --key or --latest');
+  }
+
+  let expiresIn: number | undefined;
+  if (values.expires !== undefined) {
+    expiresIn = Number(values.expires);
+    if (!Number.isInteger(expiresIn) || expiresIn < 1) {
+      throw new Error('--expires must be a positive number of seconds');
+    }
+  }
+
+  return {
+    command: 'presign',
+    selector: values.key
+      ? { type: 'key', key: values.key }
+      : { type: 'latest' },
+    ...(values.database ? { database: values.database } : {}),
+    ...(expiresIn !== undefined ? { expiresIn } : {}),
+    ...(values['requested-by'] ? { requestedBy: values['requested-by'] } : {}),
+  };
+}
+
+function parseCatalog(args: string[]): CliCommand {
+  const [action, ...rest] = args;
+  if (action !== 'rebuild') {
+    throw new Error('catalog requires a subcommand: rebuild');
+  }
+  const { values } = parseArgs({
+    args: rest,
+    options: { destination: { type: 'string' } },
+  });
+  return {
+    command: 'catalog',
+    action,
+    ...(values.destination ? { destination: values.destination } : {}),
+  };
+}
+
+function parseRetention(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      format: { type: 'string', default: 'table' },
+      output: { type: 'string' },
+      destination: { type: 'string' },
+    },
+  });
+
+  const format = values.format;
+  if (format !== 'table' && format !== 'json') {
+    throw new Error("--format must be either 'table' or 'json'");
+  }
+
+  return {
+    command: 'retention',
+    dryRun: values['dry-run'] ?? false,
+    format,
+    ...(values.output ? { output: values.output } : {}),
+    ...(values.destination ? { destination: values.destination } : {}),
+  };
+}
+
+function parseSync(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string', default: PRIMARY_DESTINATION },
+      to: { type: 'string' },
+      prune: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      database: { type: 'string' },
+    },
+  });
+
+  if (!values.to) {
+    throw new Error('sync requires --to with the destination to fill');
+  }
+
+  return {
+    command: 'sync',
+    source: values.from ?? PRIMARY_DESTINATION,
+    target: values.to,
+    prune: values.prune ?? false,
+    dryRun: values['dry-run'] ?? false,
+    ...(values.database ? { database: values.database } : {}),
+  };
+}
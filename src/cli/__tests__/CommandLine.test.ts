@@ -0,0 +1,273 @@
+import { parseCommandLine } from '../CommandLine';
+
+describe('parseCommandLine', () => {
+  it('defaults to the scheduled backup service', () => {
+    expect(parseCommandLine([])).toEqual({ command: 'backup' });
+    expect(parseCommandLine(['backup'])).toEqual({ command: 'backup' });
+  });
+
+  it('rejects unknown commands', () => {
+    expect(() => parseCommandLine(['explode'])).toThrow(
+      'Unknown command: explode'
+    );
+  });
+
+  describe('restore', () => {
+    it('parses --latest', () => {
+      expect(parseCommandLine(['restore', '--latest'])).toEqual({
+        command: 'restore',
+        selector: { type: 'latest' },
+        force: false,
+      });
+    });
+
+    it('parses --key with target and force', () => {
+      expect(
+        parseCommandLine([
+          'restore',
+          '--key',
+          'backups/a.sql.gz',
+          '--target',
+          'postgresql://localhost/restored',
+          '--force',
+        ])
+      ).toEqual({
+        command: 'restore',
+        selector: { type: 'key', key: 'backups/a.sql.gz' },
+        target: 'postgresql://localhost/restored',
+        force: true,
+      });
+    });
+
+    it('parses --database for cluster backups', () => {
+      expect(
+        parseCommandLine(['restore', '--latest', '--database', 'tenant_a'])
+      ).toEqual({
+        command: 'restore',
+        selector: { type: 'latest' },
+        database: 'tenant_a',
+        force: false,
+      });
+    });
+
+    it('parses --before as a timestamp', () => {
+      expect(
+        parseCommandLine(['restore', '--before', '2024-01-02T00:00:00Z'])
+      ).toEqual({
+        command: 'restore',
+        selector: {
+          type: 'before',
+          timestamp: new Date('2024-01-02T00:00:00Z'),
+        },
+        force: false,
+      });
+    });
+
+    it('rejects an invalid --before timestamp', () => {
+      expect(() =>
+        parseCommandLine(['restore', '--before', 'yesterday'])
+      ).toThrow('--before must be a valid ISO 8601 timestamp');
+    });
+
+    it('requires exactly one selector', () => {
+      expect(() => parseCommandLine(['restore'])).toThrow(
+        'restore requires exactly one of --key, --latest or --before'
+      );
+      expect(() =>
+        parseCommandLine(['restore', '--latest', '--key', 'a.sql.gz'])
+      ).toThrow('restore requires exactly one of --key, --latest or --before');
+    });
+  });
+
+  describe('verify', () => {
+    it('parses --all', () => {
+      expect(parseCommandLine(['verify', '--all'])).toEqual({
+        command: 'verify',
+        selector: { type: 'all' },
+      });
+    });
+
+    it('parses --key and --database', () => {
+      expect(
+        parseCommandLine([
+          'verify',
+          '--key',
+          'backups/tenant_a/a.sql.gz',
+          '--database',
+          'tenant_a',
+        ])
+      ).toEqual({
+        command: 'verify',
+        selector: { type: 'key', key: 'backups/tenant_a/a.sql.gz' },
+        database: 'tenant_a',
+      });
+    });
+
+    it('requires exactly one selector', () => {
+      expect(() => parseCommandLine(['verify'])).toThrow(
+        'verify requires exactly one of --key, --latest or --all'
+      );
+      expect(() => parseCommandLine(['verify', '--latest', '--all'])).toThrow(
+        'verify requires exactly one of --key, --latest or --all'
+      );
+    });
+  });
+
+  describe('presign', () => {
+    it('parses --latest with expiry and requester', () => {
+      expect(
+        parseCommandLine([
+          'presign',
+          '--latest',
+          '--database',
+          'tenant_a',
+          '--expires',
+          '900',
+          '--requested-by',
+          'alice',
+        ])
+      ).toEqual({
+        command: 'presign',
+        selector: { type: 'latest' },
+        database: 'tenant_a',
+        expiresIn: 900,
+        requestedBy: 'alice',
+      });
+    });
+
+    it('parses --key', () => {
+      expect(
+        parseCommandLine(['presign', '--key', 'backups/a.sql.gz'])
+      ).toEqual({
+        command: 'presign',
+        selector: { type: 'key', key: 'backups/a.sql.gz' },
+      });
+    });
+
+    it('requires exactly one selector', () => {
+      expect(() => parseCommandLine(['presign'])).toThrow(
+        'presign requires exactly one of --key or --latest'
+      );
+      expect(() =>
+        parseCommandLine(['presign', '--latest', '--key', 'a'])
+      ).toThrow('presign requires exactly one of --key or --latest');
+    });
+
+    it('rejects an invalid expiry', () => {
+      expect(() =>
+        parseCommandLine(['presign', '--latest', '--expires', '1h'])
+      ).toThrow('--expires must be a positive number of seconds');
+    });
+  });
+
+  describe('catalog', () => {
+    it('parses catalog rebuild', () => {
+      expect(parseCommandLine(['catalog', 'rebuild'])).toEqual({
+        command: 'catalog',
+        action: 'rebuild',
+      });
+    });
+
+    it('parses --destination', () => {
+      expect(
+        parseCommandLine(['catalog', 'rebuild', '--destination', 'offsite'])
+      ).toEqual({
+        command: 'catalog',
+        action: 'rebuild',
+        destination: 'offsite',
+      });
+    });
+
+    it('requires a known subcommand', () => {
+      expect(() => parseCommandLine(['catalog'])).toThrow(
+        'catalog requires a subcommand: rebuild'
+      );
+    });
+  });
+
+  describe('retention', () => {
+    it('runs for real with a table by default', () => {
+      expect(parseCommandLine(['retention'])).toEqual({
+        command: 'retention',
+        dryRun: false,
+        format: 'table',
+      });
+    });
+
+    it('parses --dry-run, --format and --output', () => {
+      expect(
+        parseCommandLine([
+          'retention',
+          '--dry-run',
+          '--format',
+          'json',
+          '--output',
+          'report.json',
+        ])
+      ).toEqual({
+        command: 'retention',
+        dryRun: true,
+        format: 'json',
+        output: 'report.json',
+      });
+    });
+
+    it('parses --destination', () => {
+      expect(
+        parseCommandLine(['retention', '--dry-run', '--destination', 'offsite'])
+      ).toEqual({
+        command: 'retention',
+        dryRun: true,
+        format: 'table',
+        destination: 'offsite',
+      });
+    });
+
+    it('rejects an unknown format', () => {
+      expect(() => parseCommandLine(['retention', '--format', 'csv'])).toThrow(
+        "--format must be either 'table' or 'json'"
+      );
+    });
+  });
+
+  describe('sync', () => {
+    it('copies from the primary destination by default', () => {
+      expect(parseCommandLine(['sync', '--to', 'offsite'])).toEqual({
+        command: 'sync',
+        source: 'primary',
+        target: 'offsite',
+        prune: false,
+        dryRun: false,
+      });
+    });
+
+    it('parses --from, --prune, --dry-run and --database', () => {
+      expect(
+        parseCommandLine([
+          'sync',
+          '--from',
+          'offsite',
+          '--to',
+          'primary',
+          '--prune',
+          '--dry-run',
+          '--database',
+          'tenant_a',
+        ])
+      ).toEqual({
+        command: 'sync',
+        source: 'offsite',
+        target: 'primary',
+        prune: true,
+        dryRun: true,
+        database: 'tenant_a',
+      });
+    });
+
+    it('requires a target', () => {
+      expect(() => parseCommandLine(['sync', '--prune'])).toThrow(
+        'sync requires --to with the destination to fill'
+      );
+    });
+  });
+});
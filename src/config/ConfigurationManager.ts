@@ -1,4 +1,46 @@
-import { BackupConfig } from '../interfaces/BackupConfig';
+import {
+  BackupConfig,
+  BackupDestination,
+  CompressionCodec,
+  DestinationQuorum,
+  DumpFormat,
+  RetentionSettings,
+  S3CannedAcl,
+  S3ObjectLockMode,
+  S3ServerSideEncryption,
+  StorageSettings,
+  S3StorageClass,
+  StorageBackendType,
+  StorageTier,
+} from '../interfaces/BackupConfig';
+import { PatternMatcher } from '../utils/PatternMatcher';
+import { validateNameTemplate } from '../naming/BackupNaming';
+import {
+  COMPRESSION_CODECS,
+  isCompressionSupported,
+} from '../backup/Compression';
+import {
+  CANNED_ACLS,
+  OBJECT_LOCK_MODES,
+  SERVER_SIDE_ENCRYPTION_MODES,
+  STORAGE_CLASSES,
+  parseObjectTags,
+} from '../s3/StorageOptions';
+import {
+  DEFAULT_PRESIGN_EXPIRY_SECONDS,
+  DEFAULT_PRESIGN_MAX_EXPIRY_SECONDS,
+  PRESIGN_EXPIRY_LIMIT_SECONDS,
+} from '../interfaces/PresignManager';
+import { parseTieringPolicy } from '../retention/TieringPolicy';
+import * as path from 'path';
+
+const DUMP_FORMATS: DumpFormat[] = ['plain', 'custom', 'directory', 'tar'];
+const STORAGE_BACKENDS: StorageBackendType[] = ['s3', 'filesystem'];
+const COMPRESSION_CODEC_NAMES = Object.keys(
+  COMPRESSION_CODECS
+) as CompressionCodec[];
+export const PRIMARY_DESTINATION = 'primary';
+const DESTINATION_NAME_PATTERN = /^[a-z0-9_]+$/i;
 
 export class ConfigurationManager {
   private config: BackupConfig;
@@ -16,9 +58,7 @@ export class ConfigurationManager {
 
     // Validate required environment variables
     const requiredVars = [
-      'S3_BUCKET',
-      'S3_ACCESS_KEY',
-      'S3_SECRET_KEY',
+      ...(env['STORAGE_BACKEND'] === 'filesystem' ? [] : ['S3_BUCKET']),
       'POSTGRES_CONNECTION_STRING',
       'BACKUP_INTERVAL',
     ];
@@ -31,14 +71,175 @@ export class ConfigurationManager {
       );
     }
 
-    // Parse retention days if provided
-    let retentionDays: number | undefined;
-    if (env['BACKUP_RETENTION_DAYS']) {
-      const parsed = parseInt(env['BACKUP_RETENTION_DAYS'], 10);
-      if (isNaN(parsed) || parsed < 0) {
-        throw new Error('BACKUP_RETENTION_DAYS must be a positive integer');
+    // Parse where backups go and how long they are kept
+    const storageSettings = this.parseStorageSettings('', 'postgres-backup');
+    const retentionSettings = this.parseRetentionSettings('');
+    const tiering = this.parseTiering('', storageSettings);
+    this.checkObjectLockPeriod('', {
+      ...storageSettings,
+      ...retentionSettings,
+    });
+    const destinations = this.parseDestinations(
+      storageSettings.s3Path,
+      retentionSettings
+    );
+    const destinationQuorum = this.parseDestinationQuorum(destinations.length);
+    const retentionDryRun = this.parseBooleanVariable(
+      'BACKUP_RETENTION_DRY_RUN'
+    );
+
+    // Parse upload mode and multipart tuning
+    const uploadMode = env['BACKUP_UPLOAD_MODE'] || 'stream';
+    if (uploadMode !== 'stream' && uploadMode !== 'file') {
+      throw new Error("BACKUP_UPLOAD_MODE must be either 'stream' or 'file'");
+    }
+    const multipartPartSizeMb = this.parseIntegerVariable(
+      'S3_MULTIPART_PART_SIZE_MB',
+      5
+    );
+    const multipartConcurrency = this.parseIntegerVariable(
+      'S3_MULTIPART_CONCURRENCY',
+      1
+    );
+    const staleUploadHours = this.parseIntegerVariable(
+      'S3_STALE_UPLOAD_HOURS',
+      0
+    );
+    const verifyUploads =
+      !env['S3_VERIFY_UPLOADS'] ||
+      this.parseBooleanVariable('S3_VERIFY_UPLOADS');
+    const uploadRetryAttempts = this.parseIntegerVariable(
+      'S3_UPLOAD_RETRY_ATTEMPTS',
+      1
+    );
+    const uploadRetryDelayMs = this.parseIntegerVariable(
+      'S3_UPLOAD_RETRY_DELAY_MS',
+      0
+    );
+
+    // Parse the lifetime of presigned download links
+    const presignExpirySeconds = this.parseIntegerVariable(
+      'PRESIGN_EXPIRY_SECONDS',
+      1
+    );
+    const presignMaxExpirySeconds = this.parseIntegerVariable(
+      'PRESIGN_MAX_EXPIRY_SECONDS',
+      1
+    );
+    const presignMaximum =
+      presignMaxExpirySeconds ?? DEFAULT_PRESIGN_MAX_EXPIRY_SECONDS;
+    if (presignMaximum > PRESIGN_EXPIRY_LIMIT_SECONDS) {
+      throw new Error(
+        `PRESIGN_MAX_EXPIRY_SECONDS must be at most ${PRESIGN_EXPIRY_LIMIT_SECONDS} (7 days)`
+      );
+    }
+    if (
+      (presignExpirySeconds ?? DEFAULT_PRESIGN_EXPIRY_SECONDS) > presignMaximum
+    ) {
+      throw new Error(
+        `PRESIGN_EXPIRY_SECONDS must not exceed PRESIGN_MAX_EXPIRY_SECONDS (${presignMaximum})`
+      );
+    }
+
+    // Parse pg_dump output format
+    const dumpFormat = (env['PG_DUMP_FORMAT'] || 'plain') as DumpFormat;
+    if (!DUMP_FORMATS.includes(dumpFormat)) {
+      throw new Error(
+        `PG_DUMP_FORMAT must be one of: ${DUMP_FORMATS.join(', ')}`
+      );
+    }
+    const dumpJobs = this.parseIntegerVariable('PG_DUMP_JOBS', 1);
+    if (dumpJobs !== undefined && dumpFormat !== 'directory') {
+      throw new Error('PG_DUMP_JOBS requires PG_DUMP_FORMAT=directory');
+    }
+    const directoryUploadMode = env['PG_DUMP_DIRECTORY_UPLOAD'] || 'archive';
+    if (directoryUploadMode !== 'archive' && directoryUploadMode !== 'prefix') {
+      throw new Error(
+        "PG_DUMP_DIRECTORY_UPLOAD must be either 'archive' or 'prefix'"
+      );
+    }
+
+    // Parse compression codec and level
+    const compression = (env['BACKUP_COMPRESSION'] ||
+      'gzip') as CompressionCodec;
+    if (!COMPRESSION_CODEC_NAMES.includes(compression)) {
+      throw new Error(
+        `BACKUP_COMPRESSION must be one of: ${COMPRESSION_CODEC_NAMES.join(', ')}`
+      );
+    }
+    const codec = COMPRESSION_CODECS[compression];
+    if (!isCompressionSupported(compression)) {
+      throw new Error(
+        `BACKUP_COMPRESSION=${compression} requires Node.js 22.15 or newer`
+      );
+    }
+    const compressionLevel = this.parseIntegerVariable(
+      'BACKUP_COMPRESSION_LEVEL',
+      codec.minLevel
+    );
+    if (compressionLevel !== undefined) {
+      if (compression === 'none') {
+        throw new Error(
+          'BACKUP_COMPRESSION_LEVEL requires a compression codec'
+        );
       }
-      retentionDays = parsed;
+      if (compressionLevel > codec.maxLevel) {
+        throw new Error(
+          `BACKUP_COMPRESSION_LEVEL must be between ${codec.minLevel} and ${codec.maxLevel} for ${compression}`
+        );
+      }
+    }
+
+    // Parse cluster-wide backup settings
+    const backupAllDatabases = this.parseBooleanVariable(
+      'BACKUP_ALL_DATABASES'
+    );
+    const includeDatabases = this.parseListVariable('BACKUP_INCLUDE_DATABASES');
+    const excludeDatabases = this.parseListVariable('BACKUP_EXCLUDE_DATABASES');
+    const databaseConcurrency = this.parseIntegerVariable(
+      'BACKUP_DATABASE_CONCURRENCY',
+      1
+    );
+    if (
+      !backupAllDatabases &&
+      (includeDatabases || excludeDatabases || databaseConcurrency)
+    ) {
+      throw new Error(
+        'BACKUP_INCLUDE_DATABASES, BACKUP_EXCLUDE_DATABASES and BACKUP_DATABASE_CONCURRENCY require BACKUP_ALL_DATABASES=true'
+      );
+    }
+
+    // Parse cluster globals settings
+    const backupGlobals = this.parseBooleanVariable('BACKUP_GLOBALS');
+    const redactRolePasswords = this.parseBooleanVariable(
+      'BACKUP_GLOBALS_REDACT_PASSWORDS'
+    );
+    if (redactRolePasswords && !backupGlobals) {
+      throw new Error(
+        'BACKUP_GLOBALS_REDACT_PASSWORDS requires BACKUP_GLOBALS=true'
+      );
+    }
+
+    // Backup names must parse back into their database and timestamp
+    const nameTemplate = env['BACKUP_NAME_TEMPLATE'];
+    if (nameTemplate) {
+      validateNameTemplate(nameTemplate, backupAllDatabases);
+    }
+
+    // Parse how the database password is handed to the pg tools
+    const pgCredentialsMode = env['PG_CREDENTIALS_MODE'] || 'env';
+    if (pgCredentialsMode !== 'env' && pgCredentialsMode !== 'pgpass') {
+      throw new Error("PG_CREDENTIALS_MODE must be either 'env' or 'pgpass'");
+    }
+
+    // Client-side encryption takes its master key from one source only
+    if (
+      env['BACKUP_ENCRYPTION_KEY_FILE'] &&
+      env['BACKUP_ENCRYPTION_PASSPHRASE']
+    ) {
+      throw new Error(
+        'Set only one of BACKUP_ENCRYPTION_KEY_FILE and BACKUP_ENCRYPTION_PASSPHRASE'
+      );
     }
 
     // Validate cron expression
@@ -48,26 +249,468 @@ export class ConfigurationManager {
     }
 
     const config: BackupConfig = {
-      s3Bucket: env['S3_BUCKET']!,
-      s3Path: env['S3_PATH'] || 'postgres-backup',
-      s3AccessKey: env['S3_ACCESS_KEY']!,
-      s3SecretKey: env['S3_SECRET_KEY']!,
+      ...storageSettings,
+      ...retentionSettings,
       postgresConnectionString: env['POSTGRES_CONNECTION_STRING']!,
       backupInterval,
       logLevel: env['LOG_LEVEL'] || 'info',
+      uploadMode,
+      dumpFormat,
+      compression,
+      pgCredentialsMode,
     };
 
     // Add optional properties only if they exist
-    if (env['S3_URL']) {
-      config.s3Url = env['S3_URL'];
+    if (destinations.length > 0) {
+      config.destinations = destinations;
     }
-    if (retentionDays !== undefined) {
-      config.retentionDays = retentionDays;
+    if (destinationQuorum !== undefined) {
+      config.destinationQuorum = destinationQuorum;
+    }
+    if (nameTemplate) {
+      config.nameTemplate = nameTemplate;
+    }
+    if (tiering) {
+      config.tiering = tiering;
+    }
+    if (retentionDryRun) {
+      config.retentionDryRun = true;
+    }
+    if (multipartPartSizeMb !== undefined) {
+      config.multipartPartSizeMb = multipartPartSizeMb;
+    }
+    if (multipartConcurrency !== undefined) {
+      config.multipartConcurrency = multipartConcurrency;
+    }
+    if (staleUploadHours !== undefined) {
+      config.staleUploadHours = staleUploadHours;
+    }
+    if (!verifyUploads) {
+      config.verifyUploads = false;
+    }
+    if (uploadRetryAttempts !== undefined) {
+      config.uploadRetryAttempts = uploadRetryAttempts;
+    }
+    if (uploadRetryDelayMs !== undefined) {
+      config.uploadRetryDelayMs = uploadRetryDelayMs;
+    }
+    if (presignExpirySeconds !== undefined) {
+      config.presignExpirySeconds = presignExpirySeconds;
+    }
+    if (presignMaxExpirySeconds !== undefined) {
+      config.presignMaxExpirySeconds = presignMaxExpirySeconds;
+    }
+    if (compressionLevel !== undefined) {
+      config.compressionLevel = compressionLevel;
+    }
+    if (dumpJobs !== undefined) {
+      config.dumpJobs = dumpJobs;
+    }
+    if (dumpFormat === 'directory') {
+      config.directoryUploadMode = directoryUploadMode;
+    }
+    if (backupAllDatabases) {
+      config.backupAllDatabases = true;
+      if (includeDatabases) {
+        config.includeDatabases = includeDatabases;
+      }
+      if (excludeDatabases) {
+        config.excludeDatabases = excludeDatabases;
+      }
+      if (databaseConcurrency !== undefined) {
+        config.databaseConcurrency = databaseConcurrency;
+      }
+    }
+    if (backupGlobals) {
+      config.backupGlobals = true;
+      config.redactRolePasswords = redactRolePasswords;
+    }
+    if (env['BACKUP_ENCRYPTION_KEY_FILE']) {
+      config.encryptionKeyFile = env['BACKUP_ENCRYPTION_KEY_FILE'];
+    }
+    if (env['BACKUP_ENCRYPTION_PASSPHRASE']) {
+      config.encryptionPassphrase = env['BACKUP_ENCRYPTION_PASSPHRASE'];
     }
 
     return config;
   }
 
+  /**
+   * Reads the storage settings of one destination. The primary destination
+   * uses the plain names; additional ones prefix them, as in
+   * BACKUP_DESTINATION_OFFSITE_S3_BUCKET, and never inherit endpoint or
+   * credentials from the primary. The filesystem backend only reads
+   * STORAGE_PATH and S3_PATH.
+   */
+  private parseStorageSettings(
+    prefix: string,
+    defaultPath: string
+  ): StorageSettings {
+    const env = process.env;
+    const name = (variable: string) => `${prefix}${variable}`;
+
+    const backend = (env[name('STORAGE_BACKEND')] ||
+      's3') as StorageBackendType;
+    if (!STORAGE_BACKENDS.includes(backend)) {
+      throw new Error(
+        `${name('STORAGE_BACKEND')} must be one of: ${STORAGE_BACKENDS.join(', ')}`
+      );
+    }
+    const storagePath = env[name('STORAGE_PATH')];
+    if (backend === 'filesystem') {
+      if (!storagePath) {
+        throw new Error(
+          `Missing required environment variables: ${name('STORAGE_PATH')}`
+        );
+      }
+      if (!path.isAbsolute(storagePath)) {
+        throw new Error(`${name('STORAGE_PATH')} must be an absolute path`);
+      }
+      if (
+        env[name('S3_OBJECT_LOCK_MODE')] ||
+        env[name('S3_OBJECT_LOCK_LEGAL_HOLD')]
+      ) {
+        throw new Error(
+          `S3 Object Lock is not available with ${name('STORAGE_BACKEND')}=filesystem`
+        );
+      }
+      return {
+        storageBackend: backend,
+        storagePath,
+        s3Path: env[name('S3_PATH')] || defaultPath,
+      };
+    }
+    if (storagePath) {
+      throw new Error(
+        `${name('STORAGE_PATH')} requires ${name('STORAGE_BACKEND')}=filesystem`
+      );
+    }
+
+    const bucket = env[name('S3_BUCKET')];
+    if (!bucket) {
+      throw new Error(
+        `Missing required environment variables: ${name('S3_BUCKET')}`
+      );
+    }
+
+    // Static keys are optional; without them the default provider chain applies
+    const accessKey = env[name('S3_ACCESS_KEY')];
+    const secretKey = env[name('S3_SECRET_KEY')];
+    if (Boolean(accessKey) !== Boolean(secretKey)) {
+      throw new Error(
+        `${name('S3_ACCESS_KEY')} and ${name('S3_SECRET_KEY')} must be set together`
+      );
+    }
+    const roleArn = env[name('S3_ROLE_ARN')];
+    const roleExternalId = env[name('S3_ROLE_EXTERNAL_ID')];
+    const roleSessionName = env[name('S3_ROLE_SESSION_NAME')];
+    if (!roleArn && (roleExternalId || roleSessionName)) {
+      throw new Error(
+        `${name('S3_ROLE_EXTERNAL_ID')} and ${name('S3_ROLE_SESSION_NAME')} require ${name('S3_ROLE_ARN')}`
+      );
+    }
+
+    // Parse S3 storage options applied on upload
+    const storageClass = env[name('S3_STORAGE_CLASS')] as
+      | S3StorageClass
+      | undefined;
+    if (storageClass && !STORAGE_CLASSES.includes(storageClass)) {
+      throw new Error(
+        `${name('S3_STORAGE_CLASS')} must be one of: ${STORAGE_CLASSES.join(', ')}`
+      );
+    }
+    const serverSideEncryption = env[name('S3_SSE')] as
+      | S3ServerSideEncryption
+      | undefined;
+    if (
+      serverSideEncryption &&
+      !SERVER_SIDE_ENCRYPTION_MODES.includes(serverSideEncryption)
+    ) {
+      throw new Error(
+        `${name('S3_SSE')} must be one of: ${SERVER_SIDE_ENCRYPTION_MODES.join(', ')}`
+      );
+    }
+    const kmsKeyId = env[name('S3_SSE_KMS_KEY_ID')];
+    if (kmsKeyId && !serverSideEncryption?.startsWith('aws:kms')) {
+      throw new Error(
+        `${name('S3_SSE_KMS_KEY_ID')} requires ${name('S3_SSE')}=aws:kms or ${name('S3_SSE')}=aws:kms:dsse`
+      );
+    }
+    const objectTagsValue = env[name('S3_OBJECT_TAGS')];
+    const objectTags = objectTagsValue
+      ? parseObjectTags(objectTagsValue, name('S3_OBJECT_TAGS'))
+      : {};
+    const acl = env[name('S3_ACL')] as S3CannedAcl | undefined;
+    if (acl && !CANNED_ACLS.includes(acl)) {
+      throw new Error(
+        `${name('S3_ACL')} must be one of: ${CANNED_ACLS.join(', ')}`
+      );
+    }
+
+    // Parse Object Lock; the lock period is checked once retention is known
+    const objectLockMode = env[name('S3_OBJECT_LOCK_MODE')] as
+      | S3ObjectLockMode
+      | undefined;
+    if (objectLockMode && !OBJECT_LOCK_MODES.includes(objectLockMode)) {
+      throw new Error(
+        `${name('S3_OBJECT_LOCK_MODE')} must be one of: ${OBJECT_LOCK_MODES.join(', ')}`
+      );
+    }
+    const objectLockDays = this.parseIntegerVariable(
+      name('S3_OBJECT_LOCK_DAYS'),
+      1
+    );
+    if (objectLockDays !== undefined && !objectLockMode) {
+      throw new Error(
+        `${name('S3_OBJECT_LOCK_DAYS')} requires ${name('S3_OBJECT_LOCK_MODE')}`
+      );
+    }
+    const objectLockLegalHold = this.parseBooleanVariable(
+      name('S3_OBJECT_LOCK_LEGAL_HOLD')
+    );
+
+    const settings: StorageSettings = {
+      s3Bucket: bucket,
+      s3Path: env[name('S3_PATH')] || defaultPath,
+    };
+    if (env[name('S3_URL')]) {
+      settings.s3Url = env[name('S3_URL')]!;
+    }
+    if (accessKey && secretKey) {
+      settings.s3AccessKey = accessKey;
+      settings.s3SecretKey = secretKey;
+    }
+    if (roleArn) {
+      settings.s3RoleArn = roleArn;
+    }
+    if (roleExternalId) {
+      settings.s3RoleExternalId = roleExternalId;
+    }
+    if (roleSessionName) {
+      settings.s3RoleSessionName = roleSessionName;
+    }
+    if (env[name('S3_REGION')]) {
+      settings.s3Region = env[name('S3_REGION')]!;
+    }
+    if (storageClass) {
+      settings.s3StorageClass = storageClass;
+    }
+    if (serverSideEncryption) {
+      settings.s3ServerSideEncryption = serverSideEncryption;
+    }
+    if (kmsKeyId) {
+      settings.s3KmsKeyId = kmsKeyId;
+    }
+    if (Object.keys(objectTags).length > 0) {
+      settings.s3ObjectTags = objectTags;
+    }
+    if (acl) {
+      settings.s3Acl = acl;
+    }
+    if (objectLockMode) {
+      settings.s3ObjectLockMode = objectLockMode;
+    }
+    if (objectLockDays !== undefined) {
+      settings.s3ObjectLockDays = objectLockDays;
+    }
+    if (objectLockLegalHold) {
+      settings.s3ObjectLockLegalHold = true;
+    }
+    return settings;
+  }
+
+  // A lock mode needs a period: its own or the age limit of the retention
+  private checkObjectLockPeriod(
+    prefix: string,
+    settings: StorageSettings & RetentionSettings
+  ): void {
+    if (
+      settings.s3ObjectLockMode &&
+      !settings.s3ObjectLockDays &&
+      !settings.retentionDays
+    ) {
+      throw new Error(
+        `${prefix}S3_OBJECT_LOCK_MODE requires ${prefix}S3_OBJECT_LOCK_DAYS or ${prefix}BACKUP_RETENTION_DAYS`
+      );
+    }
+  }
+
+  // Reads BACKUP_RETENTION_* under a prefix; unset counts are left out
+  private parseRetentionSettings(prefix: string): RetentionSettings {
+    const name = (variable: string) => `${prefix}${variable}`;
+
+    // Parse retention days if provided
+    let retentionDays: number | undefined;
+    const days = process.env[name('BACKUP_RETENTION_DAYS')];
+    if (days) {
+      const parsed = parseInt(days, 10);
+      if (isNaN(parsed) || parsed < 0) {
+        throw new Error(
+          `${name('BACKUP_RETENTION_DAYS')} must be a positive integer`
+        );
+      }
+      retentionDays = parsed;
+    }
+
+    // Parse grandfather-father-son, keep-last and minimum retention counts
+    const counts = {
+      retentionHourly: 'BACKUP_RETENTION_HOURLY',
+      retentionDaily: 'BACKUP_RETENTION_DAILY',
+      retentionWeekly: 'BACKUP_RETENTION_WEEKLY',
+      retentionMonthly: 'BACKUP_RETENTION_MONTHLY',
+      retentionYearly: 'BACKUP_RETENTION_YEARLY',
+      retentionKeepLast: 'BACKUP_RETENTION_KEEP_LAST',
+      retentionMinBackups: 'BACKUP_RETENTION_MIN_BACKUPS',
+    };
+
+    const settings: RetentionSettings = {};
+    if (retentionDays !== undefined) {
+      settings.retentionDays = retentionDays;
+    }
+    for (const [field, variable] of Object.entries(counts)) {
+      const value = this.parseIntegerVariable(name(variable), 0);
+      if (value !== undefined) {
+        settings[field as keyof typeof counts] = value;
+      }
+    }
+    return settings;
+  }
+
+  // Reads BACKUP_TIERING under a prefix; destinations never inherit it, since
+  // storage classes differ between providers and do not exist on a directory
+  private parseTiering(
+    prefix: string,
+    storage: StorageSettings
+  ): StorageTier[] | undefined {
+    const variable = `${prefix}BACKUP_TIERING`;
+    const value = process.env[variable];
+    if (!value) {
+      return undefined;
+    }
+    if (storage.storageBackend === 'filesystem') {
+      throw new Error(
+        `${variable} is not available with ${prefix}STORAGE_BACKEND=filesystem`
+      );
+    }
+    const tiers = parseTieringPolicy(value, variable);
+    return tiers.length > 0 ? tiers : undefined;
+  }
+
+  /**
+   * Reads BACKUP_DESTINATIONS, the names of the places every backup is copied
+   * to besides the primary S3_* destination. Each one is configured under
+   * BACKUP_DESTINATION_<NAME>_; its path defaults to S3_PATH and it keeps the
+   * primary retention policy unless it sets a BACKUP_RETENTION_* of its own.
+   */
+  private parseDestinations(
+    defaultPath: string,
+    defaultRetention: RetentionSettings
+  ): BackupDestination[] {
+    const names = (process.env['BACKUP_DESTINATIONS'] || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+
+    const seen = new Set<string>([PRIMARY_DESTINATION]);
+    return names.map((destinationName) => {
+      if (!DESTINATION_NAME_PATTERN.test(destinationName)) {
+        throw new Error(
+          `BACKUP_DESTINATIONS names may only contain letters, digits and underscores: ${destinationName}`
+        );
+      }
+      if (seen.has(destinationName.toLowerCase())) {
+        throw new Error(
+          `BACKUP_DESTINATIONS names must be unique and not '${PRIMARY_DESTINATION}': ${destinationName}`
+        );
+      }
+      seen.add(destinationName.toLowerCase());
+
+      const prefix = `BACKUP_DESTINATION_${destinationName.toUpperCase()}_`;
+      const retention = this.parseRetentionSettings(prefix);
+      const storage = this.parseStorageSettings(prefix, defaultPath);
+      const tiering = this.parseTiering(prefix, storage);
+      const destination = {
+        name: destinationName,
+        ...storage,
+        ...(Object.keys(retention).length > 0 ? retention : defaultRetention),
+        ...(tiering ? { tiering } : {}),
+      };
+      this.checkObjectLockPeriod(prefix, destination);
+      return destination;
+    });
+  }
+
+  // How many destinations must hold a backup for the run to succeed
+  private parseDestinationQuorum(
+    destinationCount: number
+  ): DestinationQuorum | undefined {
+    const value = process.env['BACKUP_DESTINATION_QUORUM'];
+    if (!value) {
+      return undefined;
+    }
+    if (destinationCount === 0) {
+      throw new Error('BACKUP_DESTINATION_QUORUM requires BACKUP_DESTINATIONS');
+    }
+    if (value === 'all' || value === 'majority') {
+      return value;
+    }
+    const parsed = Number(value);
+    if (
+      !Number.isInteger(parsed) ||
+      parsed < 1 ||
+      parsed > destinationCount + 1
+    ) {
+      throw new Error(
+        `BACKUP_DESTINATION_QUORUM must be 'all', 'majority' or a number between 1 and ${destinationCount + 1}`
+      );
+    }
+    return parsed;
+  }
+
+  private parseIntegerVariable(
+    name: string,
+    minimum: number
+  ): number | undefined {
+    const value = process.env[name];
+    if (!value) {
+      return undefined;
+    }
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < minimum) {
+      throw new Error(`${name} must be an integer of at least ${minimum}`);
+    }
+    return parsed;
+  }
+
+  private parseBooleanVariable(name: string): boolean {
+    const value = process.env[name];
+    if (!value) {
+      return false;
+    }
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`${name} must be either 'true' or 'false'`);
+    }
+    return value === 'true';
+  }
+
+  private parseListVariable(name: string): string[] | undefined {
+    const items = (process.env[name] || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+    if (items.length === 0) {
+      return undefined;
+    }
+    for (const item of items) {
+      try {
+        PatternMatcher.compile(item);
+      } catch {
+        throw new Error(`${name} contains an invalid pattern: ${item}`);
+      }
+    }
+    return items;
+  }
+
   private isValidCronExpression(cronExpression: string): boolean {
     // Basic cron validation - 5 or 6 fields
     const cronParts = cronExpression.trim().split(/\s+/);
@@ -85,11 +728,34 @@ export class ConfigurationManager {
     delete sanitized.s3AccessKey;
     delete sanitized.s3SecretKey;
     delete sanitized.postgresConnectionString;
+    delete sanitized.encryptionPassphrase;
+    delete sanitized.s3RoleExternalId;
+    delete sanitized.destinations;
     return {
       ...sanitized,
-      s3AccessKey: '[REDACTED]',
-      s3SecretKey: '[REDACTED]',
+      ...(this.config.destinations
+        ? {
+            destinations: this.config.destinations.map((destination) => ({
+              ...destination,
+              ...(destination.s3AccessKey
+                ? { s3AccessKey: '[REDACTED]', s3SecretKey: '[REDACTED]' }
+                : {}),
+              ...(destination.s3RoleExternalId
+                ? { s3RoleExternalId: '[REDACTED]' }
+                : {}),
+            })),
+          }
+        : {}),
+      ...(this.config.s3AccessKey
+        ? { s3AccessKey: '[REDACTED]', s3SecretKey: '[REDACTED]' }
+        : {}),
+      ...(this.config.s3RoleExternalId
+        ? { s3RoleExternalId: '[REDACTED]' }
+        : {}),
       postgresConnectionString: '[REDACTED]',
+      ...(this.config.encryptionPassphrase
+        ? { encryptionPassphrase: '[REDACTED]' }
+        : {}),
     };
   }
 
@@ -60,7 +60,7 @@ describe('ConfigurationManager', () => {
       expect(() => {
         new ConfigurationManager();
       }).toThrow(
-        'Missing required environment variables: S3_BUCKET, S3_ACCESS_KEY, S3_SECRET_KEY, POSTGRES_CONNECTION_STRING, BACKUP_INTERVAL'
+        'Missing required environment variables: S3_BUCKET, POSTGRES_CONNECTION_STRING, BACKUP_INTERVAL'
       );
     });
 
@@ -92,6 +92,843 @@ describe('ConfigurationManager', () => {
     });
   });
 
+  describe('upload settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/testdb';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should default to streaming uploads', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.uploadMode).toBe('stream');
+      expect(config.multipartPartSizeMb).toBeUndefined();
+      expect(config.multipartConcurrency).toBeUndefined();
+      expect(config.verifyUploads).toBeUndefined();
+    });
+
+    it('should let upload verification be turned off', () => {
+      process.env['S3_VERIFY_UPLOADS'] = 'false';
+
+      expect(new ConfigurationManager().getConfig().verifyUploads).toBe(false);
+
+      process.env['S3_VERIFY_UPLOADS'] = 'no';
+      expect(() => new ConfigurationManager()).toThrow(
+        "S3_VERIFY_UPLOADS must be either 'true' or 'false'"
+      );
+    });
+
+    it('should parse the upload retry policy', () => {
+      process.env['S3_UPLOAD_RETRY_ATTEMPTS'] = '5';
+      process.env['S3_UPLOAD_RETRY_DELAY_MS'] = '250';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.uploadRetryAttempts).toBe(5);
+      expect(config.uploadRetryDelayMs).toBe(250);
+
+      process.env['S3_UPLOAD_RETRY_ATTEMPTS'] = '0';
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_UPLOAD_RETRY_ATTEMPTS must be an integer of at least 1'
+      );
+    });
+
+    it('should parse temp-file mode and multipart tuning', () => {
+      process.env['BACKUP_UPLOAD_MODE'] = 'file';
+      process.env['S3_MULTIPART_PART_SIZE_MB'] = '64';
+      process.env['S3_MULTIPART_CONCURRENCY'] = '2';
+      process.env['S3_STALE_UPLOAD_HOURS'] = '0';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.uploadMode).toBe('file');
+      expect(config.multipartPartSizeMb).toBe(64);
+      expect(config.multipartConcurrency).toBe(2);
+      expect(config.staleUploadHours).toBe(0);
+    });
+
+    it('should reject an unknown upload mode', () => {
+      process.env['BACKUP_UPLOAD_MODE'] = 'carrier-pigeon';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        "BACKUP_UPLOAD_MODE must be either 'stream' or 'file'"
+      );
+    });
+
+    it('should reject a part size below the S3 minimum', () => {
+      process.env['S3_MULTIPART_PART_SIZE_MB'] = '4';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_MULTIPART_PART_SIZE_MB must be an integer of at least 5'
+      );
+    });
+
+    it('should parse presigned link lifetimes', () => {
+      process.env['PRESIGN_EXPIRY_SECONDS'] = '900';
+      process.env['PRESIGN_MAX_EXPIRY_SECONDS'] = '3600';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.presignExpirySeconds).toBe(900);
+      expect(config.presignMaxExpirySeconds).toBe(3600);
+    });
+
+    it('should keep the link expiry within the maximum', () => {
+      process.env['PRESIGN_EXPIRY_SECONDS'] = '7200';
+      process.env['PRESIGN_MAX_EXPIRY_SECONDS'] = '3600';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'PRESIGN_EXPIRY_SECONDS must not exceed PRESIGN_MAX_EXPIRY_SECONDS (3600)'
+      );
+    });
+
+    it('should reject a maximum beyond what S3 signatures allow', () => {
+      process.env['PRESIGN_MAX_EXPIRY_SECONDS'] = '604801';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'PRESIGN_MAX_EXPIRY_SECONDS must be at most 604800 (7 days)'
+      );
+    });
+  });
+
+  describe('credentials', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/testdb';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+      delete process.env['S3_ACCESS_KEY'];
+      delete process.env['S3_SECRET_KEY'];
+    });
+
+    it('should leave static keys out for the default provider chain', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.s3AccessKey).toBeUndefined();
+      expect(config.s3SecretKey).toBeUndefined();
+    });
+
+    it('should require both static keys', () => {
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_ACCESS_KEY and S3_SECRET_KEY must be set together'
+      );
+    });
+
+    it('should parse the role to assume', () => {
+      process.env['S3_ROLE_ARN'] = 'arn:aws:iam::123456789012:role/backup';
+      process.env['S3_ROLE_EXTERNAL_ID'] = 'ext-123';
+      process.env['S3_ROLE_SESSION_NAME'] = 'nightly';
+
+      const manager = new ConfigurationManager();
+      const config = manager.getConfig();
+
+      expect(config.s3RoleArn).toBe('arn:aws:iam::123456789012:role/backup');
+      expect(config.s3RoleExternalId).toBe('ext-123');
+      expect(config.s3RoleSessionName).toBe('nightly');
+      expect(manager.getSanitizedConfig()['s3RoleExternalId']).toBe(
+        '[REDACTED]'
+      );
+      expect(manager.getSanitizedConfig()['s3AccessKey']).toBeUndefined();
+    });
+
+    it('should reject role settings without a role', () => {
+      process.env['S3_ROLE_EXTERNAL_ID'] = 'ext-123';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_ROLE_EXTERNAL_ID and S3_ROLE_SESSION_NAME require S3_ROLE_ARN'
+      );
+    });
+  });
+
+  describe('storage settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/testdb';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should leave storage options unset by default', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.s3Region).toBeUndefined();
+      expect(config.s3StorageClass).toBeUndefined();
+      expect(config.s3ServerSideEncryption).toBeUndefined();
+      expect(config.s3ObjectTags).toBeUndefined();
+      expect(config.s3Acl).toBeUndefined();
+    });
+
+    it('should parse region, storage class, SSE-KMS, tags and ACL', () => {
+      process.env['S3_REGION'] = 'eu-central-1';
+      process.env['S3_STORAGE_CLASS'] = 'STANDARD_IA';
+      process.env['S3_SSE'] = 'aws:kms';
+      process.env['S3_SSE_KMS_KEY_ID'] = 'alias/backups';
+      process.env['S3_OBJECT_TAGS'] = 'team=data, cost-center = 1234';
+      process.env['S3_ACL'] = 'bucket-owner-full-control';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.s3Region).toBe('eu-central-1');
+      expect(config.s3StorageClass).toBe('STANDARD_IA');
+      expect(config.s3ServerSideEncryption).toBe('aws:kms');
+      expect(config.s3KmsKeyId).toBe('alias/backups');
+      expect(config.s3ObjectTags).toEqual({
+        team: 'data',
+        'cost-center': '1234',
+      });
+      expect(config.s3Acl).toBe('bucket-owner-full-control');
+    });
+
+    it('should reject storage classes that cannot be read directly', () => {
+      process.env['S3_STORAGE_CLASS'] = 'DEEP_ARCHIVE';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_STORAGE_CLASS must be one of: STANDARD, STANDARD_IA, ONEZONE_IA, INTELLIGENT_TIERING, GLACIER_IR'
+      );
+    });
+
+    it('should require KMS encryption for a KMS key', () => {
+      process.env['S3_SSE'] = 'AES256';
+      process.env['S3_SSE_KMS_KEY_ID'] = 'alias/backups';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_SSE_KMS_KEY_ID requires S3_SSE=aws:kms or S3_SSE=aws:kms:dsse'
+      );
+    });
+
+    it('should reject malformed or too many tags', () => {
+      process.env['S3_OBJECT_TAGS'] = 'team';
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_OBJECT_TAGS entries must be key=value: team'
+      );
+
+      process.env['S3_OBJECT_TAGS'] = Array.from(
+        { length: 11 },
+        (_, i) => `tag${i}=x`
+      ).join(',');
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_OBJECT_TAGS allows at most 10 tags'
+      );
+    });
+
+    it('should reject public ACLs', () => {
+      process.env['S3_ACL'] = 'public-read';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_ACL must be one of: private, bucket-owner-read, bucket-owner-full-control'
+      );
+    });
+
+    it('should parse Object Lock settings', () => {
+      process.env['S3_OBJECT_LOCK_MODE'] = 'COMPLIANCE';
+      process.env['S3_OBJECT_LOCK_DAYS'] = '14';
+      process.env['S3_OBJECT_LOCK_LEGAL_HOLD'] = 'true';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.s3ObjectLockMode).toBe('COMPLIANCE');
+      expect(config.s3ObjectLockDays).toBe(14);
+      expect(config.s3ObjectLockLegalHold).toBe(true);
+    });
+
+    it('should take the lock period from the retention days', () => {
+      process.env['S3_OBJECT_LOCK_MODE'] = 'GOVERNANCE';
+      process.env['BACKUP_RETENTION_DAYS'] = '30';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.s3ObjectLockMode).toBe('GOVERNANCE');
+      expect(config.s3ObjectLockDays).toBeUndefined();
+    });
+
+    it('should require a lock period for a lock mode', () => {
+      process.env['S3_OBJECT_LOCK_MODE'] = 'GOVERNANCE';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_OBJECT_LOCK_MODE requires S3_OBJECT_LOCK_DAYS or BACKUP_RETENTION_DAYS'
+      );
+    });
+
+    it('should reject an unknown lock mode or a period without a mode', () => {
+      process.env['S3_OBJECT_LOCK_MODE'] = 'STRICT';
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_OBJECT_LOCK_MODE must be one of: GOVERNANCE, COMPLIANCE'
+      );
+
+      delete process.env['S3_OBJECT_LOCK_MODE'];
+      process.env['S3_OBJECT_LOCK_DAYS'] = '14';
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3_OBJECT_LOCK_DAYS requires S3_OBJECT_LOCK_MODE'
+      );
+    });
+  });
+
+  describe('dump format settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/testdb';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should default to plain SQL dumps', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.dumpFormat).toBe('plain');
+      expect(config.dumpJobs).toBeUndefined();
+      expect(config.directoryUploadMode).toBeUndefined();
+    });
+
+    it('should parse directory format with parallel jobs', () => {
+      process.env['PG_DUMP_FORMAT'] = 'directory';
+      process.env['PG_DUMP_JOBS'] = '4';
+      process.env['PG_DUMP_DIRECTORY_UPLOAD'] = 'prefix';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.dumpFormat).toBe('directory');
+      expect(config.dumpJobs).toBe(4);
+      expect(config.directoryUploadMode).toBe('prefix');
+    });
+
+    it('should default directory dumps to a single archive', () => {
+      process.env['PG_DUMP_FORMAT'] = 'directory';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.directoryUploadMode).toBe('archive');
+    });
+
+    it('should reject an unknown dump format', () => {
+      process.env['PG_DUMP_FORMAT'] = 'csv';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'PG_DUMP_FORMAT must be one of: plain, custom, directory, tar'
+      );
+    });
+
+    it('should reject parallel jobs outside of directory format', () => {
+      process.env['PG_DUMP_FORMAT'] = 'custom';
+      process.env['PG_DUMP_JOBS'] = '4';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'PG_DUMP_JOBS requires PG_DUMP_FORMAT=directory'
+      );
+    });
+  });
+
+  describe('compression settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should default to gzip', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.compression).toBe('gzip');
+      expect(config.compressionLevel).toBeUndefined();
+    });
+
+    it('should parse a codec and level', () => {
+      process.env['BACKUP_COMPRESSION'] = 'brotli';
+      process.env['BACKUP_COMPRESSION_LEVEL'] = '4';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.compression).toBe('brotli');
+      expect(config.compressionLevel).toBe(4);
+    });
+
+    it('should reject an unknown codec', () => {
+      process.env['BACKUP_COMPRESSION'] = 'lz4';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_COMPRESSION must be one of: gzip, zstd, brotli, none'
+      );
+    });
+
+    it('should reject a level outside the codec range', () => {
+      process.env['BACKUP_COMPRESSION'] = 'gzip';
+      process.env['BACKUP_COMPRESSION_LEVEL'] = '12';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_COMPRESSION_LEVEL must be between 1 and 9 for gzip'
+      );
+    });
+
+    it('should reject a level without a codec', () => {
+      process.env['BACKUP_COMPRESSION'] = 'none';
+      process.env['BACKUP_COMPRESSION_LEVEL'] = '0';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_COMPRESSION_LEVEL requires a compression codec'
+      );
+    });
+  });
+
+  describe('cluster settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should parse include and exclude lists', () => {
+      process.env['BACKUP_ALL_DATABASES'] = 'true';
+      process.env['BACKUP_INCLUDE_DATABASES'] = 'tenant_*, /^app\\d+$/';
+      process.env['BACKUP_EXCLUDE_DATABASES'] = 'tenant_test';
+      process.env['BACKUP_DATABASE_CONCURRENCY'] = '3';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.backupAllDatabases).toBe(true);
+      expect(config.includeDatabases).toEqual(['tenant_*', '/^app\\d+$/']);
+      expect(config.excludeDatabases).toEqual(['tenant_test']);
+      expect(config.databaseConcurrency).toBe(3);
+    });
+
+    it('should reject patterns without BACKUP_ALL_DATABASES', () => {
+      process.env['BACKUP_INCLUDE_DATABASES'] = 'tenant_*';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        /require BACKUP_ALL_DATABASES=true/
+      );
+    });
+
+    it('should reject an invalid regular expression', () => {
+      process.env['BACKUP_ALL_DATABASES'] = 'true';
+      process.env['BACKUP_EXCLUDE_DATABASES'] = '/tenant_(/';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_EXCLUDE_DATABASES contains an invalid pattern: /tenant_(/'
+      );
+    });
+
+    it('should reject a non-boolean BACKUP_ALL_DATABASES', () => {
+      process.env['BACKUP_ALL_DATABASES'] = 'yes';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        "BACKUP_ALL_DATABASES must be either 'true' or 'false'"
+      );
+    });
+  });
+
+  describe('globals settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should leave globals disabled by default', () => {
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.backupGlobals).toBeUndefined();
+      expect(config.redactRolePasswords).toBeUndefined();
+    });
+
+    it('should parse globals with password redaction', () => {
+      process.env['BACKUP_GLOBALS'] = 'true';
+      process.env['BACKUP_GLOBALS_REDACT_PASSWORDS'] = 'true';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.backupGlobals).toBe(true);
+      expect(config.redactRolePasswords).toBe(true);
+    });
+
+    it('should reject redaction without BACKUP_GLOBALS', () => {
+      process.env['BACKUP_GLOBALS_REDACT_PASSWORDS'] = 'true';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_GLOBALS_REDACT_PASSWORDS requires BACKUP_GLOBALS=true'
+      );
+    });
+  });
+
+  describe('credentials settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should pass the password through the environment by default', () => {
+      expect(new ConfigurationManager().getConfig().pgCredentialsMode).toBe(
+        'env'
+      );
+    });
+
+    it('should accept a temporary .pgpass file', () => {
+      process.env['PG_CREDENTIALS_MODE'] = 'pgpass';
+
+      expect(new ConfigurationManager().getConfig().pgCredentialsMode).toBe(
+        'pgpass'
+      );
+    });
+
+    it('should reject an unknown credentials mode', () => {
+      process.env['PG_CREDENTIALS_MODE'] = 'argv';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        "PG_CREDENTIALS_MODE must be either 'env' or 'pgpass'"
+      );
+    });
+  });
+
+  describe('encryption settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should parse a key file', () => {
+      process.env['BACKUP_ENCRYPTION_KEY_FILE'] = '/run/secrets/backup.key';
+
+      expect(new ConfigurationManager().getConfig().encryptionKeyFile).toBe(
+        '/run/secrets/backup.key'
+      );
+    });
+
+    it('should reject both a key file and a passphrase', () => {
+      process.env['BACKUP_ENCRYPTION_KEY_FILE'] = '/run/secrets/backup.key';
+      process.env['BACKUP_ENCRYPTION_PASSPHRASE'] = 'hunter2';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'Set only one of BACKUP_ENCRYPTION_KEY_FILE and BACKUP_ENCRYPTION_PASSPHRASE'
+      );
+    });
+  });
+
+  describe('retention settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should parse grandfather-father-son counts', () => {
+      process.env['BACKUP_RETENTION_DAILY'] = '7';
+      process.env['BACKUP_RETENTION_WEEKLY'] = '4';
+      process.env['BACKUP_RETENTION_YEARLY'] = '0';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.retentionDaily).toBe(7);
+      expect(config.retentionWeekly).toBe(4);
+      expect(config.retentionYearly).toBe(0);
+      expect(config.retentionHourly).toBeUndefined();
+      expect(config.retentionMonthly).toBeUndefined();
+    });
+
+    it('should parse keep-last and minimum counts', () => {
+      process.env['BACKUP_RETENTION_KEEP_LAST'] = '10';
+      process.env['BACKUP_RETENTION_MIN_BACKUPS'] = '3';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.retentionKeepLast).toBe(10);
+      expect(config.retentionMinBackups).toBe(3);
+    });
+
+    it('should parse the dry-run flag', () => {
+      process.env['BACKUP_RETENTION_DRY_RUN'] = 'true';
+
+      expect(new ConfigurationManager().getConfig().retentionDryRun).toBe(true);
+    });
+
+    it('should parse a tiering policy', () => {
+      process.env['BACKUP_TIERING'] = 'STANDARD_IA:30,GLACIER_IR:90';
+
+      expect(new ConfigurationManager().getConfig().tiering).toEqual([
+        { storageClass: 'STANDARD_IA', afterDays: 30 },
+        { storageClass: 'GLACIER_IR', afterDays: 90 },
+      ]);
+    });
+
+    it('should reject a negative count', () => {
+      process.env['BACKUP_RETENTION_MONTHLY'] = '-1';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_RETENTION_MONTHLY must be an integer of at least 0'
+      );
+    });
+  });
+
+  describe('destination settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_PATH'] = 'orders';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+      process.env['BACKUP_RETENTION_DAILY'] = '7';
+      process.env['BACKUP_DESTINATIONS'] = 'offsite';
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_BUCKET'] = 'offsite-bucket';
+    });
+
+    it('should parse additional destinations under their prefix', () => {
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_URL'] =
+        'https://s3.example.net';
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_ACCESS_KEY'] = 'offsite-key';
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_SECRET_KEY'] =
+        'offsite-secret';
+      process.env['BACKUP_DESTINATION_OFFSITE_BACKUP_RETENTION_WEEKLY'] = '8';
+      process.env['BACKUP_DESTINATION_QUORUM'] = 'majority';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.destinations).toEqual([
+        {
+          name: 'offsite',
+          s3Bucket: 'offsite-bucket',
+          s3Path: 'orders',
+          s3Url: 'https://s3.example.net',
+          s3AccessKey: 'offsite-key',
+          s3SecretKey: 'offsite-secret',
+          retentionWeekly: 8,
+        },
+      ]);
+      expect(config.destinationQuorum).toBe('majority');
+    });
+
+    it('should keep the primary retention policy unless one is set', () => {
+      process.env['BACKUP_TIERING'] = 'GLACIER_IR:30';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.destinations?.[0]).toEqual({
+        name: 'offsite',
+        s3Bucket: 'offsite-bucket',
+        s3Path: 'orders',
+        retentionDaily: 7,
+      });
+      expect(config.destinationQuorum).toBeUndefined();
+    });
+
+    it('should parse a tiering policy of its own', () => {
+      process.env['BACKUP_DESTINATION_OFFSITE_BACKUP_TIERING'] =
+        'STANDARD_IA:60';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.tiering).toBeUndefined();
+      expect(config.destinations?.[0]).toMatchObject({
+        retentionDaily: 7,
+        tiering: [{ storageClass: 'STANDARD_IA', afterDays: 60 }],
+      });
+    });
+
+    it('should require a bucket per destination', () => {
+      delete process.env['BACKUP_DESTINATION_OFFSITE_S3_BUCKET'];
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'Missing required environment variables: BACKUP_DESTINATION_OFFSITE_S3_BUCKET'
+      );
+    });
+
+    it('should name the prefixed variable in validation errors', () => {
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_SSE'] = 'none';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_DESTINATION_OFFSITE_S3_SSE must be one of: AES256, aws:kms, aws:kms:dsse'
+      );
+    });
+
+    it('should reject duplicate names', () => {
+      process.env['BACKUP_DESTINATIONS'] = 'offsite,primary';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        "BACKUP_DESTINATIONS names must be unique and not 'primary': primary"
+      );
+    });
+
+    it('should reject a quorum larger than the destinations', () => {
+      process.env['BACKUP_DESTINATION_QUORUM'] = '3';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        "BACKUP_DESTINATION_QUORUM must be 'all', 'majority' or a number between 1 and 2"
+      );
+    });
+
+    it('should require destinations for a quorum', () => {
+      delete process.env['BACKUP_DESTINATIONS'];
+      process.env['BACKUP_DESTINATION_QUORUM'] = '1';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_DESTINATION_QUORUM requires BACKUP_DESTINATIONS'
+      );
+    });
+
+    it('should redact destination credentials', () => {
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_ACCESS_KEY'] = 'offsite-key';
+      process.env['BACKUP_DESTINATION_OFFSITE_S3_SECRET_KEY'] =
+        'offsite-secret';
+
+      const sanitized = new ConfigurationManager().getSanitizedConfig();
+
+      expect(sanitized['destinations']).toEqual([
+        expect.objectContaining({
+          s3AccessKey: '[REDACTED]',
+          s3SecretKey: '[REDACTED]',
+        }),
+      ]);
+    });
+  });
+
+  describe('storage backend settings', () => {
+    beforeEach(() => {
+      delete process.env['S3_BUCKET'];
+      process.env['STORAGE_BACKEND'] = 'filesystem';
+      process.env['STORAGE_PATH'] = '/mnt/backups';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should parse a filesystem backend without a bucket', () => {
+      process.env['S3_PATH'] = 'orders';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.storageBackend).toBe('filesystem');
+      expect(config.storagePath).toBe('/mnt/backups');
+      expect(config.s3Path).toBe('orders');
+      expect(config.s3Bucket).toBeUndefined();
+    });
+
+    it('should allow a filesystem destination next to an S3 primary', () => {
+      delete process.env['STORAGE_BACKEND'];
+      delete process.env['STORAGE_PATH'];
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['BACKUP_DESTINATIONS'] = 'nas';
+      process.env['BACKUP_DESTINATION_NAS_STORAGE_BACKEND'] = 'filesystem';
+      process.env['BACKUP_DESTINATION_NAS_STORAGE_PATH'] = '/mnt/nas';
+
+      const config = new ConfigurationManager().getConfig();
+
+      expect(config.destinations).toEqual([
+        {
+          name: 'nas',
+          storageBackend: 'filesystem',
+          storagePath: '/mnt/nas',
+          s3Path: 'postgres-backup',
+        },
+      ]);
+    });
+
+    it('should require an absolute storage path', () => {
+      process.env['STORAGE_PATH'] = 'backups';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'STORAGE_PATH must be an absolute path'
+      );
+    });
+
+    it('should require a storage path for the filesystem backend', () => {
+      delete process.env['STORAGE_PATH'];
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'Missing required environment variables: STORAGE_PATH'
+      );
+    });
+
+    it('should reject a storage path without the filesystem backend', () => {
+      process.env['STORAGE_BACKEND'] = 's3';
+      process.env['S3_BUCKET'] = 'test-bucket';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'STORAGE_PATH requires STORAGE_BACKEND=filesystem'
+      );
+    });
+
+    it('should reject Object Lock on the filesystem backend', () => {
+      process.env['S3_OBJECT_LOCK_LEGAL_HOLD'] = 'true';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'S3 Object Lock is not available with STORAGE_BACKEND=filesystem'
+      );
+    });
+
+    it('should reject tiering on the filesystem backend', () => {
+      process.env['BACKUP_TIERING'] = 'STANDARD_IA:30';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_TIERING is not available with STORAGE_BACKEND=filesystem'
+      );
+    });
+
+    it('should reject an unknown backend', () => {
+      process.env['STORAGE_BACKEND'] = 'ftp';
+      process.env['S3_BUCKET'] = 'test-bucket';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'STORAGE_BACKEND must be one of: s3, filesystem'
+      );
+    });
+  });
+
+  describe('naming settings', () => {
+    beforeEach(() => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/db';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+    });
+
+    it('should parse a name template', () => {
+      process.env['BACKUP_NAME_TEMPLATE'] = '{yyyy}/{mm}/{dd}/{db}-{timestamp}';
+
+      expect(new ConfigurationManager().getConfig().nameTemplate).toBe(
+        '{yyyy}/{mm}/{dd}/{db}-{timestamp}'
+      );
+    });
+
+    it('should require {db} in the template of cluster backups', () => {
+      process.env['BACKUP_ALL_DATABASES'] = 'true';
+      process.env['BACKUP_NAME_TEMPLATE'] = 'backup-{timestamp}';
+
+      expect(() => new ConfigurationManager()).toThrow(
+        'BACKUP_NAME_TEMPLATE must contain {db} when BACKUP_ALL_DATABASES is enabled'
+      );
+    });
+  });
+
   describe('getSanitizedConfig', () => {
     it('should return configuration with sensitive data redacted', () => {
       process.env['S3_BUCKET'] = 'test-bucket';
@@ -110,6 +947,20 @@ describe('ConfigurationManager', () => {
       expect(sanitized['s3Bucket']).toBe('test-bucket');
       expect(sanitized['backupInterval']).toBe('0 2 * * *');
     });
+
+    it('should redact the encryption passphrase', () => {
+      process.env['S3_BUCKET'] = 'test-bucket';
+      process.env['S3_ACCESS_KEY'] = 'test-access-key';
+      process.env['S3_SECRET_KEY'] = 'test-secret-key';
+      process.env['POSTGRES_CONNECTION_STRING'] =
+        'postgresql://localhost:5432/testdb';
+      process.env['BACKUP_INTERVAL'] = '0 2 * * *';
+      process.env['BACKUP_ENCRYPTION_PASSPHRASE'] = 'hunter2';
+
+      const sanitized = new ConfigurationManager().getSanitizedConfig();
+
+      expect(sanitized['encryptionPassphrase']).toBe('[REDACTED]');
+    });
   });
 
   describe('validateConfiguration', () => {
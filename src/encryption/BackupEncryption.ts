@@ -0,0 +1,273 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+import * as fs from 'fs';
+import { Readable, Transform, pipeline } from 'stream';
+import { BackupConfig } from '../interfaces/BackupConfig';
+
+export const ENCRYPTION_ALGORITHM = 'AES-256-GCM';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+const SCRYPT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+const MAX_SCRYPT_N = 1048576;
+const MAX_SCRYPT_R = 16;
+
+// Object metadata keys; S3 stores them as x-amz-meta-*
+const META_ALGORITHM = 'encryption';
+const META_IV = 'encryption-iv';
+const META_WRAPPED_KEY = 'encryption-wrapped-key';
+const META_KDF = 'encryption-kdf';
+const META_KDF_SALT = 'encryption-kdf-salt';
+const META_KDF_PARAMS = 'encryption-kdf-params';
+
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface EncryptedStream {
+  stream: Readable;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Envelope encryption for backup objects. Every object gets a random data
+ * key; the data key is wrapped with the master key (read from a key file or
+ * derived from a passphrase with scrypt) and stored next to the IV in the
+ * object metadata. The GCM authentication tag trails the ciphertext.
+ */
+export class BackupEncryption {
+  private config: BackupConfig;
+  private keyFileKey: Buffer | undefined;
+
+  constructor(config: BackupConfig) {
+    this.config = config;
+  }
+
+  public static isEnabled(config: BackupConfig): boolean {
+    return Boolean(config.encryptionKeyFile || config.encryptionPassphrase);
+  }
+
+  public static isEncrypted(metadata: Record<string, string>): boolean {
+    return metadata[META_ALGORITHM] !== undefined;
+  }
+
+  public encrypt(input: Readable): EncryptedStream {
+    const metadata: Record<string, string> = {
+      [META_ALGORITHM]: ENCRYPTION_ALGORITHM,
+    };
+
+    let masterKey: Buffer;
+    if (this.config.encryptionPassphrase) {
+      const salt = randomBytes(SALT_LENGTH);
+      masterKey = this.deriveKey(this.config.encryptionPassphrase, salt);
+      metadata[META_KDF] = 'scrypt';
+      metadata[META_KDF_SALT] = salt.toString('base64');
+      metadata[META_KDF_PARAMS] =
+        `N=${SCRYPT_PARAMS.N},r=${SCRYPT_PARAMS.r},p=${SCRYPT_PARAMS.p}`;
+    } else {
+      masterKey = this.loadKeyFile();
+      metadata[META_KDF] = 'none';
+    }
+
+    const dataKey = randomBytes(KEY_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    metadata[META_IV] = iv.toString('base64');
+    metadata[META_WRAPPED_KEY] = this.wrapKey(dataKey, masterKey);
+
+    const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+    const encryptor = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        callback(null, cipher.update(chunk));
+      },
+      flush(callback) {
+        this.push(cipher.final());
+        callback(null, cipher.getAuthTag());
+      },
+    });
+
+    return {
+      stream: pipeline(input, encryptor, () => undefined),
+      metadata,
+    };
+  }
+
+  public decrypt(
+    input: Readable,
+    metadata: Record<string, string>,
+    key: string
+  ): Readable {
+    const algorithm = metadata[META_ALGORITHM];
+    if (algorithm !== ENCRYPTION_ALGORITHM) {
+      throw new Error(
+        `Backup ${key} uses unsupported encryption algorithm: ${algorithm}`
+      );
+    }
+
+    const masterKey = this.resolveMasterKey(metadata, key);
+    const dataKey = this.unwrapKey(
+      metadata[META_WRAPPED_KEY] || '',
+      masterKey,
+      key
+    );
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      dataKey,
+      Buffer.from(metadata[META_IV] || '', 'base64')
+    );
+
+    // Hold back the trailing bytes until the end, where they are the tag
+    let held = Buffer.alloc(0);
+    const decryptor = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        held = Buffer.concat([held, chunk]);
+        if (held.length <= TAG_LENGTH) {
+          callback();
+          return;
+        }
+        const ciphertext = held.subarray(0, held.length - TAG_LENGTH);
+        held = held.subarray(held.length - TAG_LENGTH);
+        callback(null, decipher.update(ciphertext));
+      },
+      flush(callback) {
+        if (held.length !== TAG_LENGTH) {
+          callback(new Error(`Encrypted backup ${key} is truncated`));
+          return;
+        }
+        try {
+          decipher.setAuthTag(held);
+          callback(null, decipher.final());
+        } catch {
+          callback(
+            new Error(
+              `Encrypted backup ${key} failed authentication; it is corrupt or was modified`
+            )
+          );
+        }
+      },
+    });
+
+    return pipeline(input, decryptor, () => undefined);
+  }
+
+  private resolveMasterKey(
+    metadata: Record<string, string>,
+    key: string
+  ): Buffer {
+    const kdf = metadata[META_KDF];
+    if (kdf === 'scrypt') {
+      if (!this.config.encryptionPassphrase) {
+        throw new Error(
+          `Backup ${key} is encrypted with a passphrase; set BACKUP_ENCRYPTION_PASSPHRASE to restore it`
+        );
+      }
+      return this.deriveKey(
+        this.config.encryptionPassphrase,
+        Buffer.from(metadata[META_KDF_SALT] || '', 'base64'),
+        this.parseKdfParams(metadata[META_KDF_PARAMS] || '', key)
+      );
+    }
+
+    if (!this.config.encryptionKeyFile) {
+      throw new Error(
+        `Backup ${key} is encrypted with a key file; set BACKUP_ENCRYPTION_KEY_FILE to restore it`
+      );
+    }
+    return this.loadKeyFile();
+  }
+
+  private wrapKey(dataKey: Buffer, masterKey: Buffer): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', masterKey, iv);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, wrapped, cipher.getAuthTag()]).toString('base64');
+  }
+
+  private unwrapKey(
+    wrappedKey: string,
+    masterKey: Buffer,
+    key: string
+  ): Buffer {
+    const data = Buffer.from(wrappedKey, 'base64');
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        masterKey,
+        data.subarray(0, IV_LENGTH)
+      );
+      decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+      return Buffer.concat([
+        decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new Error(
+        `Encryption key does not match the key used for backup ${key}`
+      );
+    }
+  }
+
+  private parseKdfParams(value: string, key: string): ScryptParams {
+    const match = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(value);
+    const params = match
+      ? { N: Number(match[1]), r: Number(match[2]), p: Number(match[3]) }
+      : undefined;
+    // Refuse parameters that would exhaust memory if the metadata was tampered
+    if (!params || params.N > MAX_SCRYPT_N || params.r > MAX_SCRYPT_R) {
+      throw new Error(`Backup ${key} has invalid key derivation parameters`);
+    }
+    return params;
+  }
+
+  private deriveKey(
+    passphrase: string,
+    salt: Buffer,
+    params: ScryptParams = SCRYPT_PARAMS
+  ): Buffer {
+    // scrypt needs 128 * N * r bytes; leave headroom over the 32 MB default
+    return scryptSync(passphrase, salt, KEY_LENGTH, {
+      ...params,
+      maxmem: 256 * params.N * params.r,
+    });
+  }
+
+  private loadKeyFile(): Buffer {
+    if (this.keyFileKey) {
+      return this.keyFileKey;
+    }
+
+    const filePath = this.config.encryptionKeyFile!;
+    let contents: Buffer;
+    try {
+      contents = fs.readFileSync(filePath);
+    } catch (error) {
+      throw new Error(
+        `Failed to read encryption key file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    // Accept 32 raw bytes, or the same encoded as hex or base64
+    const text = contents.toString('utf8').trim();
+    let key: Buffer = contents;
+    if (/^[0-9a-fA-F]{64}$/.test(text)) {
+      key = Buffer.from(text, 'hex');
+    } else if (contents.length !== KEY_LENGTH) {
+      key = Buffer.from(text, 'base64');
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Encryption key file must contain a ${KEY_LENGTH}-byte key (raw, hex or base64)`
+      );
+    }
+
+    this.keyFileKey = key;
+    return key;
+  }
+}
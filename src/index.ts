@@ -1,7 +1,33 @@
-import { ConfigurationManager } from './config/ConfigurationManager';
+import {
+  ConfigurationManager,
+  PRIMARY_DESTINATION,
+} from './config/ConfigurationManager';
 import { BackupManagerImpl } from './backup/BackupManager';
+import { RestoreManagerImpl } from './restore/RestoreManager';
+import { VerifyManagerImpl } from './verify/VerifyManager';
+import { PresignManagerImpl } from './presign/PresignManager';
+import { SyncManagerImpl } from './sync/SyncManager';
+import { formatSyncReport } from './sync/SyncReport';
+import { BackupCatalog } from './catalog/BackupCatalog';
+import { RetentionManager } from './retention/RetentionManager';
+import { formatRetentionReport } from './retention/RetentionReport';
+import { resolveS3Credentials } from './s3/S3Credentials';
+import { S3Client } from './s3/S3Client';
+import { hasObjectLock } from './s3/StorageOptions';
+import {
+  createStorageBackend,
+  describeStorage,
+} from './storage/StorageBackends';
+import {
+  destinationConfigs,
+  findDestination,
+} from './backup/BackupDestinations';
+import { PostgreSQLClient } from './postgres/PostgreSQLClient';
+import { CliCommand, parseCommandLine } from './cli/CommandLine';
 import { CronScheduler } from './utils/CronScheduler';
 import { Logger } from './utils/Logger';
+import * as fs from 'fs';
+import * as os from 'os';
 
 class Application {
   private configManager: ConfigurationManager;
@@ -23,6 +49,18 @@ class Application {
         'Configuration loaded successfully',
         this.configManager.getSanitizedConfig()
       );
+      for (const destination of destinationConfigs(config)) {
+        Logger.info('Storage', {
+          destination: destination.name,
+          target: describeStorage(destination.config),
+          ...(destination.config.storageBackend === 'filesystem'
+            ? {}
+            : {
+                credentials: resolveS3Credentials(destination.config)
+                  .description,
+              }),
+        });
+      }
 
       // Initialize backup manager
       this.backupManager = new BackupManagerImpl(config);
@@ -30,6 +68,13 @@ class Application {
         throw new Error('Invalid backup configuration');
       }
 
+      // Locked backups can only be written to buckets with Object Lock
+      for (const destination of destinationConfigs(config)) {
+        if (hasObjectLock(destination.config)) {
+          await new S3Client(destination.config).verifyObjectLock();
+        }
+      }
+
       // Test connections
       Logger.info('Testing database and S3 connections...');
       const backupResult = await this.backupManager.executeBackup();
@@ -40,6 +85,7 @@ class Application {
         fileName: backupResult.fileName,
         fileSize: backupResult.fileSize,
         duration: backupResult.duration,
+        databases: backupResult.databases,
       });
 
       // Start cron scheduler
@@ -52,9 +98,13 @@ class Application {
             fileName: result.fileName,
             fileSize: result.fileSize,
             duration: result.duration,
+            databases: result.databases,
           });
         } else {
-          Logger.error('Scheduled backup failed', { error: result.error });
+          Logger.error('Scheduled backup failed', {
+            error: result.error,
+            databases: result.databases,
+          });
         }
       });
 
@@ -75,6 +125,250 @@ class Application {
     }
   }
 
+  public async restore(
+    command: Extract<CliCommand, { command: 'restore' }>
+  ): Promise<void> {
+    try {
+      const config = this.configManager.getConfig();
+      Logger.info('Starting restore...', { selector: command.selector });
+
+      // Cluster backups restore into the database of the same name by default
+      const defaultTarget = command.database
+        ? new PostgreSQLClient(config).getConnectionString(command.database)
+        : config.postgresConnectionString;
+
+      const restoreManager = new RestoreManagerImpl(config);
+      const result = await restoreManager.executeRestore({
+        selector: command.selector,
+        targetConnectionString: command.target || defaultTarget,
+        force: command.force,
+        ...(command.database ? { database: command.database } : {}),
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      Logger.info('Restore completed successfully', {
+        fileName: result.fileName,
+        fileSize: result.fileSize,
+        s3Location: result.s3Location,
+        duration: result.duration,
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Restore failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  public async verify(
+    command: Extract<CliCommand, { command: 'verify' }>
+  ): Promise<void> {
+    try {
+      const config = this.configManager.getConfig();
+      Logger.info('Starting verification...', { selector: command.selector });
+
+      const verifyManager = new VerifyManagerImpl(config);
+      const result = await verifyManager.executeVerify({
+        selector: command.selector,
+        ...(command.database ? { database: command.database } : {}),
+      });
+
+      for (const backup of result.backups) {
+        if (!backup.success) {
+          Logger.error('Backup failed verification', {
+            key: backup.key,
+            error: backup.error,
+          });
+        } else if (backup.checksum && !backup.expectedChecksum) {
+          Logger.warn('Backup has no recorded checksum; only decoded it', {
+            key: backup.key,
+            checksum: backup.checksum,
+          });
+        } else {
+          Logger.info('Backup verified', {
+            key: backup.key,
+            size: backup.size,
+          });
+        }
+      }
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      Logger.info('Verification completed successfully', {
+        verified: result.verified,
+        duration: result.duration,
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Verification failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  public async presign(
+    command: Extract<CliCommand, { command: 'presign' }>
+  ): Promise<void> {
+    try {
+      const config = this.configManager.getConfig();
+      const requestedBy = command.requestedBy || os.userInfo().username;
+      Logger.info('Issuing presigned download links...', {
+        selector: command.selector,
+        requestedBy,
+      });
+
+      const presignManager = new PresignManagerImpl(config);
+      const result = await presignManager.executePresign({
+        selector: command.selector,
+        requestedBy,
+        ...(command.database ? { database: command.database } : {}),
+        ...(command.expiresIn ? { expiresIn: command.expiresIn } : {}),
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      // The links go to stdout only; logs may be shipped to shared systems
+      for (const link of result.links) {
+        process.stdout.write(`${link.url}\n`);
+      }
+      Logger.info('Presigned download links issued', {
+        backup: result.backup,
+        objects: result.links.length,
+        expiresAt: result.expiresAt,
+        auditKey: result.auditKey,
+        requestedBy,
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Issuing presigned links failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  public async rebuildCatalog(
+    command: Extract<CliCommand, { command: 'catalog' }>
+  ): Promise<void> {
+    try {
+      const { name, config } = findDestination(
+        this.configManager.getConfig(),
+        command.destination ?? PRIMARY_DESTINATION
+      );
+      Logger.info('Rebuilding backup catalog from the object listing...', {
+        destination: name,
+      });
+
+      const catalog = new BackupCatalog(createStorageBackend(config), config);
+      const backups = await catalog.rebuild();
+
+      Logger.info('Backup catalog rebuilt successfully', {
+        destination: name,
+        backups: backups.length,
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Catalog rebuild failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  public async retention(
+    command: Extract<CliCommand, { command: 'retention' }>
+  ): Promise<void> {
+    try {
+      const { name, config } = findDestination(
+        this.configManager.getConfig(),
+        command.destination ?? PRIMARY_DESTINATION
+      );
+      Logger.info(
+        command.dryRun
+          ? 'Computing retention dry run...'
+          : 'Running retention cleanup...',
+        { destination: name }
+      );
+
+      const retentionManager = new RetentionManager(
+        createStorageBackend(config),
+        config
+      );
+      const report = await retentionManager.runRetention({
+        dryRun: command.dryRun,
+      });
+
+      const formatted = formatRetentionReport(report, command.format);
+      if (command.output) {
+        fs.writeFileSync(command.output, `${formatted}\n`);
+      } else {
+        process.stdout.write(`${formatted}\n`);
+      }
+
+      Logger.info('Retention completed successfully', {
+        destination: name,
+        dryRun: report.dryRun,
+        deleted: report.deleted,
+        expired: report.expired,
+        kept: report.kept,
+        ...(report.halted ? { halted: report.halted } : {}),
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Retention failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
+  public async sync(
+    command: Extract<CliCommand, { command: 'sync' }>
+  ): Promise<void> {
+    try {
+      const config = this.configManager.getConfig();
+      Logger.info(
+        command.dryRun
+          ? 'Computing sync dry run...'
+          : 'Syncing backups between destinations...',
+        { source: command.source, target: command.target }
+      );
+
+      const syncManager = new SyncManagerImpl(config);
+      const result = await syncManager.executeSync({
+        source: command.source,
+        target: command.target,
+        prune: command.prune,
+        dryRun: command.dryRun,
+        ...(command.database ? { database: command.database } : {}),
+      });
+
+      process.stdout.write(`${formatSyncReport(result)}\n`);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      Logger.info('Sync completed successfully', {
+        dryRun: result.dryRun,
+        copied: result.copied.length,
+        skipped: result.skipped.length,
+        pruned: result.pruned.length,
+        duration: result.duration,
+      });
+      process.exit(0);
+    } catch (error) {
+      Logger.error('Sync failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  }
+
   private setupGracefulShutdown(): void {
     const shutdown = async (signal: string) => {
       if (this.isShuttingDown) return;
@@ -96,11 +390,33 @@ class Application {
   }
 }
 
+function run(): Promise<void> {
+  const command = parseCommandLine(process.argv.slice(2));
+  const app = new Application();
+  switch (command.command) {
+    case 'restore':
+      return app.restore(command);
+    case 'verify':
+      return app.verify(command);
+    case 'presign':
+      return app.presign(command);
+    case 'catalog':
+      return app.rebuildCatalog(command);
+    case 'retention':
+      return app.retention(command);
+    case 'sync':
+      return app.sync(command);
+    case 'backup':
+      return app.start();
+  }
+}
+
 // Start the application
-const app = new Application();
-app.start().catch((error) => {
-  Logger.error('Unhandled error during startup', {
-    error: error instanceof Error ? error.message : String(error),
+Promise.resolve()
+  .then(run)
+  .catch((error) => {
+    Logger.error('Unhandled error during startup', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
   });
-  process.exit(1);
-});
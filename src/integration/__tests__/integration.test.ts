@@ -25,6 +25,7 @@ describe('Integration: Backup Workflow', () => {
     process.env['S3_PATH'] = 'backups';
     process.env['BACKUP_RETENTION_DAYS'] = '30';
     process.env['LOG_LEVEL'] = 'info';
+    process.env['BACKUP_UPLOAD_MODE'] = 'file';
 
     configManager = new ConfigurationManager();
     const config = configManager.getConfig();
@@ -33,11 +34,15 @@ describe('Integration: Backup Workflow', () => {
       testConnection: jest.fn(),
       createBackup: jest.fn(),
       cleanupBackupFile: jest.fn(),
+      getVersionInfo: jest.fn().mockResolvedValue({}),
+      getDatabaseName: jest.fn().mockReturnValue('db'),
     } as unknown as jest.Mocked<PostgreSQLClient>;
     mockS3Client = {
       testConnection: jest.fn(),
       uploadFile: jest.fn(),
-      listObjects: jest.fn(),
+      readObject: jest.fn().mockResolvedValue(null),
+      putObject: jest.fn().mockResolvedValue('"etag"'),
+      listObjects: jest.fn().mockResolvedValue([]),
       deleteObject: jest.fn(),
     } as unknown as jest.Mocked<S3Client>;
     mockRetentionManager = {
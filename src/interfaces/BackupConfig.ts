@@ -1,11 +1,99 @@
-export interface BackupConfig {
+export type DumpFormat = 'plain' | 'custom' | 'directory' | 'tar';
+export type PgCredentialsMode = 'env' | 'pgpass';
+export type CompressionCodec = 'gzip' | 'zstd' | 'brotli' | 'none';
+export type S3StorageClass =
+  | 'STANDARD'
+  | 'STANDARD_IA'
+  | 'ONEZONE_IA'
+  | 'INTELLIGENT_TIERING'
+  | 'GLACIER_IR';
+export type S3ServerSideEncryption = 'AES256' | 'aws:kms' | 'aws:kms:dsse';
+export type S3ObjectLockMode = 'GOVERNANCE' | 'COMPLIANCE';
+export type StorageBackendType = 's3' | 'filesystem';
+export type S3CannedAcl =
+  | 'private'
+  | 'bucket-owner-read'
+  | 'bucket-owner-full-control';
+
+// 'all', 'majority' or a number of destinations that must hold each backup
+export type DestinationQuorum = 'all' | 'majority' | number;
+
+// Where backups are stored: the main settings and each additional
+// destination provide one set
+export interface StorageSettings {
+  storageBackend?: StorageBackendType; // default 's3'
+  storagePath?: string; // root directory of the filesystem backend
   s3Url?: string;
-  s3Bucket: string;
-  s3Path: string;
-  s3AccessKey: string;
-  s3SecretKey: string;
+  s3Bucket?: string; // required by the s3 backend
+  s3Path: string; // key prefix on every backend
+  s3AccessKey?: string; // without static keys the AWS default provider chain is used
+  s3SecretKey?: string;
+  s3RoleArn?: string; // assumed with the static keys or the default chain
+  s3RoleExternalId?: string;
+  s3RoleSessionName?: string;
+  s3Region?: string;
+  s3StorageClass?: S3StorageClass; // applied to backup objects
+  s3ServerSideEncryption?: S3ServerSideEncryption;
+  s3KmsKeyId?: string; // with aws:kms or aws:kms:dsse, instead of the AWS managed key
+  s3ObjectTags?: Record<string, string>; // applied to backup objects
+  s3Acl?: S3CannedAcl;
+  s3ObjectLockMode?: S3ObjectLockMode; // retention set on every backup object
+  s3ObjectLockDays?: number; // lock period, defaults to retentionDays
+  s3ObjectLockLegalHold?: boolean; // legal hold on every backup object
+}
+
+// Backups older than `afterDays` move to `storageClass`
+export interface StorageTier {
+  storageClass: S3StorageClass;
+  afterDays: number;
+}
+
+export interface RetentionSettings {
+  retentionDays?: number;
+  retentionHourly?: number; // grandfather-father-son counts, newest backup per period
+  retentionDaily?: number;
+  retentionWeekly?: number;
+  retentionMonthly?: number;
+  retentionYearly?: number;
+  retentionKeepLast?: number; // keep the newest N backups of each database
+  retentionMinBackups?: number; // never go below N backups per database, default 1
+  tiering?: StorageTier[]; // colder storage classes for kept backups, youngest tier first
+}
+
+// An additional place every backup is copied to, with its own retention
+export interface BackupDestination extends StorageSettings, RetentionSettings {
+  name: string;
+}
+
+export interface BackupConfig extends StorageSettings, RetentionSettings {
   postgresConnectionString: string;
   backupInterval: string; // cron format
-  retentionDays?: number;
+  destinations?: BackupDestination[]; // besides the primary S3_* destination
+  destinationQuorum?: DestinationQuorum; // default 'all'
+  retentionDryRun?: boolean; // report what retention would delete without deleting
+  presignExpirySeconds?: number; // default lifetime of presigned download links
+  presignMaxExpirySeconds?: number; // longest lifetime a link may be issued with
   logLevel?: string;
-} 
\ No newline at end of file
+  nameTemplate?: string; // object name relative to s3Path, e.g. {yyyy}/{mm}/{dd}/{db}-{timestamp}
+  uploadMode?: 'stream' | 'file'; // stream pg_dump straight to S3 or via a temp file
+  multipartPartSizeMb?: number;
+  multipartConcurrency?: number;
+  staleUploadHours?: number; // abort incomplete multipart uploads older than this, 0 disables
+  verifyUploads?: boolean; // read every uploaded backup back with HeadObject, default true
+  uploadRetryAttempts?: number; // uploads of a backup that fails verification, default 3
+  uploadRetryDelayMs?: number; // wait before uploading again, doubled after each attempt
+  dumpFormat?: DumpFormat;
+  compression?: CompressionCodec; // applied to plain and tar dumps
+  compressionLevel?: number;
+  dumpJobs?: number; // parallel pg_dump workers, directory format only
+  directoryUploadMode?: 'archive' | 'prefix';
+  backupAllDatabases?: boolean; // discover and back up every database on the server
+  includeDatabases?: string[]; // glob or /regex/ patterns
+  excludeDatabases?: string[];
+  databaseConcurrency?: number;
+  backupGlobals?: boolean; // pg_dumpall --globals-only alongside each run
+  redactRolePasswords?: boolean;
+  pgCredentialsMode?: PgCredentialsMode; // how the password reaches pg_dump, psql and pg_restore
+  encryptionKeyFile?: string; // 32-byte master key, raw, hex or base64
+  encryptionPassphrase?: string; // master key derived with scrypt
+}
@@ -10,4 +10,12 @@ export interface BackupResult {
   s3Location: string;
   duration: number;
   error?: string;
-} 
\ No newline at end of file
+  databases?: DatabaseBackupResult[]; // per-database outcome when backing up a cluster
+  globalsLocation?: string; // roles and tablespaces dumped with pg_dumpall
+  checksum?: string; // SHA-256 of the uploaded object, absent for prefix dumps
+  failedDestinations?: string[]; // destinations missing a backup the quorum let through
+}
+
+export interface DatabaseBackupResult extends BackupResult {
+  databaseName: string;
+}
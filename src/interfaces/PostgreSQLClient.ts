@@ -1,11 +1,39 @@
+import { Readable } from 'stream';
+import { DumpFormat } from './BackupConfig';
+
 export interface PostgreSQLClient {
   testConnection(): Promise<boolean>;
   createBackup(outputPath: string): Promise<BackupInfo>;
+  createBackupStream(): BackupStream;
+  createGlobalsStream(): BackupStream;
+  getVersionInfo(): Promise<VersionInfo>;
+  listDatabases(): Promise<string[]>;
+  getDatabaseName(): string;
+  getConnectionString(databaseName: string): string;
+  isDatabaseEmpty(connectionString: string): Promise<boolean>;
+  restoreBackup(
+    input: Readable | string,
+    connectionString: string,
+    format?: DumpFormat
+  ): Promise<string>;
 }
 
 export interface BackupInfo {
   filePath: string;
   fileSize: number;
+  rawSize?: number; // pg_dump output before compression
   databaseName: string;
   timestamp: Date;
-} 
\ No newline at end of file
+  checksum?: string; // SHA-256 of the file written to outputPath
+}
+
+export interface BackupStream {
+  stream: Readable; // compressed dump output
+  databaseName: string;
+  completion: Promise<BackupInfo>; // settles once pg_dump has exited
+}
+
+export interface VersionInfo {
+  pgDumpVersion?: string; // e.g. "16.2"
+  serverVersion?: string; // as reported by SHOW server_version
+}
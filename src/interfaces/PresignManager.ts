@@ -0,0 +1,33 @@
+export const DEFAULT_PRESIGN_EXPIRY_SECONDS = 60 * 60;
+export const DEFAULT_PRESIGN_MAX_EXPIRY_SECONDS = 24 * 60 * 60;
+// SigV4 signatures are valid for at most seven days
+export const PRESIGN_EXPIRY_LIMIT_SECONDS = 7 * 24 * 60 * 60;
+
+export interface PresignManager {
+  executePresign(options: PresignOptions): Promise<PresignResult>;
+}
+
+export type PresignSelector = { type: 'key'; key: string } | { type: 'latest' };
+
+export interface PresignOptions {
+  selector: PresignSelector;
+  database?: string; // source database prefix when backing up a whole cluster
+  expiresIn?: number; // seconds, default PRESIGN_EXPIRY_SECONDS
+  requestedBy: string; // recorded in the audit trail
+}
+
+export interface PresignedLink {
+  key: string;
+  size: number;
+  url: string;
+}
+
+export interface PresignResult {
+  success: boolean;
+  backup?: string; // key of the selected backup
+  links: PresignedLink[]; // one per object; directory dumps have several
+  expiresAt?: string;
+  auditKey?: string; // where the issuance was recorded
+  duration: number;
+  error?: string;
+}
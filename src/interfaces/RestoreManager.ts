@@ -0,0 +1,19 @@
+import { BackupResult } from './BackupManager';
+
+export interface RestoreManager {
+  executeRestore(options: RestoreOptions): Promise<RestoreResult>;
+}
+
+export type BackupSelector =
+  | { type: 'key'; key: string }
+  | { type: 'latest' }
+  | { type: 'before'; timestamp: Date };
+
+export interface RestoreOptions {
+  selector: BackupSelector;
+  targetConnectionString: string;
+  force?: boolean; // restore into a non-empty database
+  database?: string; // source database prefix when backing up a whole cluster
+}
+
+export type RestoreResult = BackupResult;
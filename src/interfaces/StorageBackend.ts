@@ -0,0 +1,90 @@
+import { Readable } from 'stream';
+import { S3StorageClass } from './BackupConfig';
+
+/**
+ * Where backups are kept: an S3 bucket or a local or mounted directory. Keys
+ * are `/`-separated paths and behave the same on every backend, so backup,
+ * catalog, retention, restore and verify never know which one they use.
+ */
+export interface StorageBackend {
+  uploadFile(
+    filePath: string,
+    key: string,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<string>;
+  uploadStream(
+    stream: Readable,
+    key: string,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<string>;
+  downloadStream(key: string): Promise<Readable>;
+  downloadObject(key: string): Promise<StorageDownload>;
+  readObject(key: string): Promise<StorageDocument | null>;
+  putObject(
+    key: string,
+    body: string,
+    contentType: string,
+    conditions?: StorageWriteConditions
+  ): Promise<string>;
+  listObjects(prefix: string): Promise<StorageObject[]>;
+  iterateObjects(prefix: string): AsyncIterable<StorageObject>;
+  headObject(key: string): Promise<StorageObjectHead | null>;
+  updateMetadata(key: string, metadata: Record<string, string>): Promise<void>;
+  changeStorageClass(key: string, storageClass: S3StorageClass): Promise<void>;
+  deleteObject(key: string): Promise<void>;
+  deleteObjects(
+    keys: string[],
+    options?: StorageDeleteOptions
+  ): Promise<StorageDeleteResult>;
+  abortStaleUploads(prefix: string, olderThan: Date): Promise<number>;
+  testConnection(): Promise<boolean>;
+  location(key: string): string; // s3://bucket/key or file:///path/key
+}
+
+export interface StorageDownload {
+  body: Readable;
+  metadata: Record<string, string>; // user metadata without the x-amz-meta- prefix
+  contentType?: string;
+}
+
+export interface StorageDocument {
+  body: string;
+  etag: string;
+}
+
+// Conditional write headers; pass the ETag read earlier, or '*' to create
+export interface StorageWriteConditions {
+  ifMatch?: string;
+  ifNoneMatch?: string;
+}
+
+export interface StorageObject {
+  key: string;
+  lastModified: Date;
+  size: number;
+}
+
+export interface StorageObjectHead extends StorageObject {
+  etag: string;
+  contentType?: string;
+  metadata: Record<string, string>;
+  storageClass?: string; // S3 only, absent for STANDARD
+  lockedUntil?: Date; // Object Lock retention, S3 only
+  legalHold?: boolean;
+}
+
+export interface StorageDeleteOptions {
+  allVersions?: boolean; // S3 only: every version and delete marker of each key
+}
+
+export interface StorageDeleteResult {
+  deleted: string[];
+  errors: StorageDeleteError[];
+}
+
+export interface StorageDeleteError {
+  key: string;
+  error: string;
+}
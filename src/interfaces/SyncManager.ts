@@ -0,0 +1,45 @@
+export interface SyncManager {
+  executeSync(options: SyncOptions): Promise<SyncResult>;
+}
+
+// 'copy' is a server-side CopyObject, 'stream' downloads and uploads again
+export type SyncMethod = 'copy' | 'stream';
+
+export interface SyncOptions {
+  source: string; // destination name, 'primary' or one of BACKUP_DESTINATIONS
+  target: string;
+  prune: boolean; // delete backups the source does not have from the target
+  dryRun: boolean;
+  database?: string; // source database prefix when backing up a whole cluster
+}
+
+export interface SyncedBackup {
+  key: string; // key on the target
+  size: number;
+  method?: SyncMethod; // how it was copied; absent for pruned backups
+}
+
+export interface SkippedBackup {
+  key: string;
+  size: number;
+  reason: string;
+}
+
+export interface FailedSync {
+  key: string;
+  size: number;
+  error: string;
+}
+
+export interface SyncResult {
+  success: boolean;
+  source: string;
+  target: string;
+  dryRun: boolean;
+  copied: SyncedBackup[]; // or would be, in a dry run
+  skipped: SkippedBackup[];
+  pruned: SyncedBackup[];
+  failed: FailedSync[];
+  duration: number;
+  error?: string;
+}
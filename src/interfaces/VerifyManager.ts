@@ -0,0 +1,31 @@
+export interface VerifyManager {
+  executeVerify(options: VerifyOptions): Promise<VerifyResult>;
+}
+
+export type VerifySelector =
+  | { type: 'key'; key: string }
+  | { type: 'latest' }
+  | { type: 'all' };
+
+export interface VerifyOptions {
+  selector: VerifySelector;
+  database?: string; // source database prefix when backing up a whole cluster
+}
+
+export interface BackupVerification {
+  key: string;
+  size: number;
+  success: boolean;
+  checksum?: string; // SHA-256 of the downloaded bytes
+  expectedChecksum?: string; // recorded at backup time; absent for older backups
+  error?: string;
+}
+
+export interface VerifyResult {
+  success: boolean;
+  verified: number;
+  failed: number;
+  duration: number;
+  backups: BackupVerification[];
+  error?: string;
+}
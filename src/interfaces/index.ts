@@ -1,4 +1,8 @@
 export * from './BackupConfig';
 export * from './BackupManager';
-export * from './S3Client';
-export * from './PostgreSQLClient'; 
\ No newline at end of file
+export * from './StorageBackend';
+export * from './PostgreSQLClient';
+export * from './RestoreManager';
+export * from './VerifyManager';
+export * from './PresignManager';
+export * from './SyncManager';
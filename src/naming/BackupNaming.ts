@@ -0,0 +1,232 @@
+import * as path from 'path';
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { BackupKind } from '../types/BackupMetadata';
+import {
+  DumpFormatDetails,
+  escapeRegExp,
+  getDumpFormat,
+  getGlobalsFormat,
+  isGlobalsKey,
+  splitBackupKey,
+} from '../backup/BackupFormat';
+
+export const DEFAULT_NAME_TEMPLATE = 'postgres-backup-{timestamp}';
+export const DEFAULT_CLUSTER_NAME_TEMPLATE = '{db}/postgres-backup-{timestamp}';
+const GLOBALS_NAME_TEMPLATE = 'postgres-globals-{timestamp}';
+
+const TOKEN_PATTERNS = {
+  db: '[^/]+?',
+  timestamp: '\\d{4}-\\d{2}-\\d{2}_\\d{2}-\\d{2}-\\d{2}',
+  host: '[^/]+?',
+  format: 'plain|custom|tar|directory',
+  yyyy: '\\d{4}',
+  mm: '\\d{2}',
+  dd: '\\d{2}',
+};
+type NameToken = keyof typeof TOKEN_PATTERNS;
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+// Layouts written before naming templates: the timestamp used '-' or '_'
+// between date and time, and cluster dumps sat in a folder per database
+const LEGACY_NAME_PATTERN =
+  /^(?:([^/]+)\/)?postgres-(backup|globals)-(\d{4}-\d{2}-\d{2})[_-](\d{2})-(\d{2})-(\d{2})$/;
+
+export interface BackupNameFields {
+  kind: BackupKind;
+  timestamp: Date;
+  databaseName?: string;
+}
+
+export interface ParsedBackupName {
+  kind: BackupKind;
+  timestamp: Date;
+  databaseName?: string; // only when the name carries it
+  host?: string;
+  format: DumpFormatDetails;
+  legacy: boolean; // matched a pre-template layout, not the configured template
+}
+
+/**
+ * Formats and parses backup object keys. Database dumps are named by
+ * BACKUP_NAME_TEMPLATE, relative to S3_PATH, with the format extension
+ * appended; globals keep a fixed name. Every component that creates or reads
+ * backup keys goes through this class, so the two never disagree.
+ */
+export class BackupNaming {
+  private config: BackupConfig;
+  private template: string;
+
+  constructor(config: BackupConfig) {
+    this.config = config;
+    this.template = getNameTemplate(config);
+  }
+
+  public keyFor(fields: BackupNameFields): string {
+    const isGlobals = fields.kind === 'globals';
+    const format = isGlobals
+      ? getGlobalsFormat(this.config)
+      : getDumpFormat(this.config);
+    const name = (isGlobals ? GLOBALS_NAME_TEMPLATE : this.template).replace(
+      TOKEN_PATTERN,
+      (_match, token: NameToken) =>
+        this.tokenValue(token, fields, format.format)
+    );
+    return path.posix.join(
+      this.config.s3Path || '',
+      `${name}${format.extension}`
+    );
+  }
+
+  public parse(key: string): ParsedBackupName | null {
+    const prefix = (this.config.s3Path || '').replace(/\/+$/, '');
+    if (prefix && !key.startsWith(`${prefix}/`)) {
+      return null;
+    }
+    const split = splitBackupKey(prefix ? key.slice(prefix.length + 1) : key);
+    if (!split) {
+      return null;
+    }
+
+    const kind: BackupKind = isGlobalsKey(key) ? 'globals' : 'dump';
+    const match = compileTemplate(
+      kind === 'globals' ? GLOBALS_NAME_TEMPLATE : this.template
+    ).exec(split.name);
+    if (match?.groups?.['timestamp']) {
+      const { db, host } = match.groups;
+      return {
+        kind,
+        timestamp: parseTimestamp(match.groups['timestamp']),
+        ...(db ? { databaseName: db } : {}),
+        ...(host ? { host } : {}),
+        format: split.format,
+        legacy: false,
+      };
+    }
+    return parseLegacyBackupName(split.name, split.format);
+  }
+
+  private tokenValue(
+    token: NameToken,
+    fields: BackupNameFields,
+    format: string
+  ): string {
+    const iso = fields.timestamp.toISOString();
+    switch (token) {
+      case 'db':
+        if (!fields.databaseName) {
+          throw new Error(
+            'BACKUP_NAME_TEMPLATE uses {db} but POSTGRES_CONNECTION_STRING names no database'
+          );
+        }
+        return fields.databaseName;
+      case 'timestamp':
+        return formatTimestamp(fields.timestamp);
+      case 'host':
+        return databaseHost(this.config.postgresConnectionString);
+      case 'format':
+        return format;
+      case 'yyyy':
+        return iso.slice(0, 4);
+      case 'mm':
+        return iso.slice(5, 7);
+      case 'dd':
+        return iso.slice(8, 10);
+    }
+  }
+}
+
+export function getNameTemplate(config: BackupConfig): string {
+  if (config.nameTemplate) {
+    return config.nameTemplate;
+  }
+  return config.backupAllDatabases
+    ? DEFAULT_CLUSTER_NAME_TEMPLATE
+    : DEFAULT_NAME_TEMPLATE;
+}
+
+// Throws when a template could not be parsed back unambiguously
+export function validateNameTemplate(
+  template: string,
+  requireDatabase: boolean
+): void {
+  const tokens = [...template.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  const unknown = tokens.filter((token) => !(token! in TOKEN_PATTERNS));
+  if (unknown.length > 0) {
+    throw new Error(
+      `BACKUP_NAME_TEMPLATE contains unknown tokens: ${unknown.map((token) => `{${token}}`).join(', ')}`
+    );
+  }
+  if (!tokens.includes('timestamp')) {
+    throw new Error('BACKUP_NAME_TEMPLATE must contain {timestamp}');
+  }
+  if (requireDatabase && !tokens.includes('db')) {
+    throw new Error(
+      'BACKUP_NAME_TEMPLATE must contain {db} when BACKUP_ALL_DATABASES is enabled'
+    );
+  }
+  if (template.startsWith('/') || template.split('/').includes('..')) {
+    throw new Error('BACKUP_NAME_TEMPLATE must be a path relative to S3_PATH');
+  }
+}
+
+/**
+ * Recognizes names written before naming templates existed, relative to
+ * S3_PATH and without their extension, so backups keep being found by the
+ * catalog, retention and restore after BACKUP_NAME_TEMPLATE changes.
+ */
+export function parseLegacyBackupName(
+  name: string,
+  format: DumpFormatDetails
+): ParsedBackupName | null {
+  const match = LEGACY_NAME_PATTERN.exec(name);
+  if (!match) {
+    return null;
+  }
+  return {
+    kind: match[2] === 'globals' ? 'globals' : 'dump',
+    timestamp: new Date(`${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`),
+    ...(match[1] ? { databaseName: match[1] } : {}),
+    format,
+    legacy: true,
+  };
+}
+
+// UTC, to the second: 2024-01-15_14-30-00
+export function formatTimestamp(timestamp: Date): string {
+  return timestamp
+    .toISOString()
+    .slice(0, 19)
+    .replace('T', '_')
+    .replace(/:/g, '-');
+}
+
+function parseTimestamp(value: string): Date {
+  const [date, time] = value.split('_');
+  return new Date(`${date}T${time!.replace(/-/g, ':')}Z`);
+}
+
+function compileTemplate(template: string): RegExp {
+  const seen = new Set<string>();
+  let pattern = '';
+  let last = 0;
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const token = match[1] as NameToken;
+    pattern += escapeRegExp(template.slice(last, match.index));
+    // A token used twice must have the same value both times
+    pattern += seen.has(token)
+      ? `\\k<${token}>`
+      : `(?<${token}>${TOKEN_PATTERNS[token]})`;
+    seen.add(token);
+    last = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(template.slice(last));
+  return new RegExp(`^${pattern}$`);
+}
+
+function databaseHost(connectionString: string): string {
+  try {
+    return new URL(connectionString).hostname || 'localhost';
+  } catch {
+    return /(?:^|\s)host=(\S+)/.exec(connectionString)?.[1] ?? 'localhost';
+  }
+}
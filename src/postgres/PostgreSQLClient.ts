@@ -1,11 +1,29 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { BackupInfo } from '../interfaces/PostgreSQLClient';
-import { BackupConfig } from '../interfaces/BackupConfig';
+import { Client } from 'pg';
+import { PassThrough, Readable, Transform, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import {
+  BackupInfo,
+  BackupStream,
+  VersionInfo,
+} from '../interfaces/PostgreSQLClient';
+import {
+  BackupConfig,
+  CompressionCodec,
+  DumpFormat,
+} from '../interfaces/BackupConfig';
+import {
+  DumpFormatDetails,
+  getDumpFormat,
+  getGlobalsFormat,
+} from '../backup/BackupFormat';
+import { createCompressor } from '../backup/Compression';
+import { ChecksumStream } from '../utils/Checksum';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PgProcess, PgProcessOptions, spawnPgProcess } from './PgProcess';
 
-const execAsync = promisify(exec);
+const CONNECTION_TEST_TIMEOUT_MS = 10000;
+const BACKUP_TIMEOUT_MS = 3600000;
 
 export class PostgreSQLClient {
   private config: BackupConfig;
@@ -17,9 +35,12 @@ export class PostgreSQLClient {
   public async testConnection(): Promise<boolean> {
     try {
       // Use pg_dump with --schema-only for a quick connection test
-      const testCommand = `pg_dump --schema-only --dbname="${this.config.postgresConnectionString}" --no-password`;
-
-      await execAsync(testCommand, { timeout: 10000 }); // 10 second timeout
+      await this.spawnPg(
+        'pg_dump',
+        ['--schema-only', '--no-password'],
+        this.config.postgresConnectionString,
+        { timeoutMs: CONNECTION_TEST_TIMEOUT_MS }
+      ).exited;
       return true;
     } catch (error) {
       console.error('PostgreSQL connection test failed:', error);
@@ -40,15 +61,48 @@ export class PostgreSQLClient {
         this.config.postgresConnectionString
       );
 
-      // Build pg_dump command with compression
-      const dumpCommand = `pg_dump --verbose --clean --no-owner --no-privileges --dbname="${this.config.postgresConnectionString}" --no-password | gzip > "${outputPath}"`;
+      // Build pg_dump arguments for the configured format
+      const format = getDumpFormat(this.config);
+      const args = [...this.dumpArguments(format), '--no-password'];
 
       console.log(`Starting backup of database: ${databaseName}`);
       const startTime = Date.now();
+      let checksum: string | undefined;
+      let rawSize: number | undefined;
 
-      const { stderr } = await execAsync(dumpCommand, {
-        timeout: 3600000, // 1 hour timeout
-      });
+      if (!format.streamable) {
+        args.push(`--file=${outputPath}`);
+        await this.spawnPg(
+          'pg_dump',
+          args,
+          this.config.postgresConnectionString,
+          { timeoutMs: BACKUP_TIMEOUT_MS }
+        ).exited;
+      } else {
+        const dump = this.spawnPg(
+          'pg_dump',
+          args,
+          this.config.postgresConnectionString,
+          { timeoutMs: BACKUP_TIMEOUT_MS, stdout: 'pipe' }
+        );
+        rawSize = 0;
+        dump.stdout!.on('data', (chunk: Buffer) => {
+          rawSize! += chunk.length;
+        });
+        const output = fs.createWriteStream(outputPath);
+        const hasher = new ChecksumStream();
+        const compressor = createCompressor(
+          format.compression,
+          this.config.compressionLevel
+        );
+        await Promise.all([
+          dump.exited,
+          compressor
+            ? pipelineAsync(dump.stdout!, compressor, hasher, output)
+            : pipelineAsync(dump.stdout!, hasher, output),
+        ]);
+        checksum = hasher.digest;
+      }
 
       const endTime = Date.now();
       const duration = endTime - startTime;
@@ -58,23 +112,21 @@ export class PostgreSQLClient {
         throw new Error('Backup file was not created');
       }
 
-      const stats = fs.statSync(outputPath);
-      if (stats.size === 0) {
+      const fileSize = this.getBackupSize(outputPath);
+      if (fileSize === 0) {
         throw new Error('Backup file is empty');
       }
 
       console.log(`Backup completed successfully in ${duration}ms`);
-      console.log(`Backup file: ${outputPath} (${stats.size} bytes)`);
-
-      if (stderr) {
-        console.warn('pg_dump warnings:', stderr);
-      }
+      console.log(`Backup file: ${outputPath} (${fileSize} bytes)`);
 
       return {
         filePath: outputPath,
-        fileSize: stats.size,
+        fileSize,
+        rawSize: rawSize ?? fileSize,
         databaseName,
         timestamp: new Date(),
+        ...(checksum ? { checksum } : {}),
       };
     } catch (error) {
       console.error('Backup creation failed:', error);
@@ -84,6 +136,329 @@ export class PostgreSQLClient {
     }
   }
 
+  public createBackupStream(): BackupStream {
+    const format = getDumpFormat(this.config);
+    if (!format.streamable) {
+      throw new Error(`The ${format.format} dump format cannot be streamed`);
+    }
+
+    const databaseName = this.extractDatabaseName(
+      this.config.postgresConnectionString
+    );
+
+    console.log(`Starting streaming backup of database: ${databaseName}`);
+    return this.spawnDumpStream(
+      'pg_dump',
+      [...this.dumpArguments(format), '--no-password'],
+      format.compression,
+      databaseName
+    );
+  }
+
+  public createGlobalsStream(): BackupStream {
+    const args = ['--globals-only'];
+    if (this.config.redactRolePasswords) {
+      // Leaves roles without passwords instead of exporting their hashes
+      args.push('--no-role-passwords');
+    }
+    args.push('--no-password');
+
+    console.log('Starting backup of cluster globals');
+    return this.spawnDumpStream(
+      'pg_dumpall',
+      args,
+      getGlobalsFormat(this.config).compression,
+      'globals'
+    );
+  }
+
+  private spawnDumpStream(
+    command: string,
+    args: string[],
+    compression: CompressionCodec,
+    databaseName: string
+  ): BackupStream {
+    const startTime = Date.now();
+    const dump = this.spawnPg(
+      command,
+      args,
+      this.config.postgresConnectionString,
+      { timeoutMs: BACKUP_TIMEOUT_MS, stdout: 'pipe' }
+    );
+    const exited = dump.exited;
+    let rawSize = 0;
+    dump.stdout!.on('data', (chunk: Buffer) => {
+      rawSize += chunk.length;
+    });
+
+    // Hold back the end of the stream until the dump has exited cleanly, so a
+    // failed dump never reaches the consumer as a complete one
+    let fileSize = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        fileSize += chunk.length;
+        callback(null, chunk);
+      },
+      flush(callback) {
+        exited.then(() => callback(), callback);
+      },
+    });
+    const output = new PassThrough();
+    const compressor = createCompressor(
+      compression,
+      this.config.compressionLevel
+    );
+
+    const piped = new Promise<void>((resolve, reject) => {
+      const done = (error: Error | null) => (error ? reject(error) : resolve());
+      if (compressor) {
+        pipeline(dump.stdout!, compressor, counter, output, done);
+      } else {
+        pipeline(dump.stdout!, counter, output, done);
+      }
+    });
+
+    const completion = Promise.all([exited, piped])
+      .then(() => {
+        console.log(
+          `Streaming backup completed successfully in ${Date.now() - startTime}ms (${fileSize} bytes)`
+        );
+        return {
+          filePath: '',
+          fileSize,
+          rawSize,
+          databaseName,
+          timestamp: new Date(),
+        };
+      })
+      .catch((error) => {
+        console.error('Streaming backup failed:', error);
+        throw new Error(
+          `Failed to create backup: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      });
+
+    return { stream: output, databaseName, completion };
+  }
+
+  // Recorded in the backup catalog; either version is omitted if unavailable
+  public async getVersionInfo(): Promise<VersionInfo> {
+    const versions: VersionInfo = {};
+
+    try {
+      const proc = this.spawnPg(
+        'pg_dump',
+        ['--version'],
+        this.config.postgresConnectionString,
+        { timeoutMs: CONNECTION_TEST_TIMEOUT_MS, stdout: 'pipe' }
+      );
+      let output = '';
+      proc.stdout!.on('data', (chunk: Buffer) => {
+        output += chunk.toString();
+      });
+      await proc.exited;
+      versions.pgDumpVersion = output
+        .trim()
+        .replace(/^pg_dump \(PostgreSQL\) /, '');
+    } catch (error) {
+      console.warn('Could not determine the pg_dump version:', error);
+    }
+
+    const client = new Client({
+      connectionString: this.maintenanceConnectionString(),
+    });
+    try {
+      await client.connect();
+      const result = await client.query<{ server_version: string }>(
+        'SHOW server_version'
+      );
+      if (result.rows[0]) {
+        versions.serverVersion = result.rows[0].server_version;
+      }
+    } catch (error) {
+      console.warn('Could not determine the server version:', error);
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+
+    return versions;
+  }
+
+  public async listDatabases(): Promise<string[]> {
+    const client = new Client({
+      connectionString: this.maintenanceConnectionString(),
+    });
+    try {
+      await client.connect();
+      const result = await client.query<{ datname: string }>(
+        `SELECT datname
+           FROM pg_catalog.pg_database
+          WHERE NOT datistemplate AND datallowconn
+          ORDER BY datname`
+      );
+      return result.rows.map((row) => row.datname);
+    } catch (error) {
+      throw new Error(
+        `Failed to list databases: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  // Empty when the connection string names no database
+  public getDatabaseName(): string {
+    return this.hasDatabaseName(this.config.postgresConnectionString)
+      ? this.extractDatabaseName(this.config.postgresConnectionString)
+      : '';
+  }
+
+  public getConnectionString(databaseName: string): string {
+    const url = new URL(this.config.postgresConnectionString);
+    url.pathname = `/${encodeURIComponent(databaseName)}`;
+    return url.toString();
+  }
+
+  // Connect to the maintenance database when the URL names none
+  private maintenanceConnectionString(): string {
+    return this.hasDatabaseName(this.config.postgresConnectionString)
+      ? this.config.postgresConnectionString
+      : this.getConnectionString('postgres');
+  }
+
+  private hasDatabaseName(connectionString: string): boolean {
+    try {
+      this.extractDatabaseName(connectionString);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async isDatabaseEmpty(connectionString: string): Promise<boolean> {
+    const client = new Client({ connectionString });
+    try {
+      await client.connect();
+      // Count user relations outside of the system schemas
+      const result = await client.query<{ count: number }>(
+        `SELECT count(*)::int AS count
+           FROM pg_catalog.pg_class c
+           JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+          WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+            AND n.nspname NOT LIKE 'pg_toast%'
+            AND c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f')`
+      );
+      return (result.rows[0]?.count ?? 0) === 0;
+    } catch (error) {
+      throw new Error(
+        `Failed to inspect target database: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  public async restoreBackup(
+    input: Readable | string,
+    connectionString: string,
+    format: DumpFormat = 'plain'
+  ): Promise<string> {
+    const databaseName = this.extractDatabaseName(connectionString);
+
+    console.log(
+      `Starting restore of ${format} backup into database: ${databaseName}`
+    );
+    const startTime = Date.now();
+
+    try {
+      if (format === 'plain') {
+        if (typeof input === 'string') {
+          throw new Error('Plain backups must be restored from a stream');
+        }
+        await this.spawnPg(
+          'psql',
+          ['--quiet', '--no-password', '--set', 'ON_ERROR_STOP=1'],
+          connectionString,
+          { stdin: input }
+        ).exited;
+      } else {
+        // Archive formats go through pg_restore; directories are read from
+        // disk, which is also the only case where parallel jobs apply
+        const args = [
+          '--no-password',
+          '--clean',
+          '--if-exists',
+          '--no-owner',
+          '--no-privileges',
+          '--exit-on-error',
+          `--format=${format}`,
+        ];
+        if (typeof input === 'string') {
+          if (this.config.dumpJobs) {
+            args.push(`--jobs=${this.config.dumpJobs}`);
+          }
+          args.push(input);
+          await this.spawnPg('pg_restore', args, connectionString).exited;
+        } else {
+          await this.spawnPg('pg_restore', args, connectionString, {
+            stdin: input,
+          }).exited;
+        }
+      }
+    } catch (error) {
+      console.error('Restore failed:', error);
+      throw new Error(
+        `Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    console.log(
+      `Restore completed successfully in ${Date.now() - startTime}ms`
+    );
+    return databaseName;
+  }
+
+  private spawnPg(
+    command: string,
+    args: string[],
+    connectionString: string,
+    options: Omit<PgProcessOptions, 'connectionString'> = {}
+  ): PgProcess {
+    return spawnPgProcess(command, args, {
+      ...options,
+      connectionString,
+      credentialsMode: this.config.pgCredentialsMode || 'env',
+    });
+  }
+
+  private dumpArguments(format: DumpFormatDetails): string[] {
+    const args = [
+      '--verbose',
+      '--clean',
+      '--no-owner',
+      '--no-privileges',
+      `--format=${format.format}`,
+    ];
+    if (format.format === 'directory' && this.config.dumpJobs) {
+      args.push(`--jobs=${this.config.dumpJobs}`);
+    }
+    return args;
+  }
+
+  private getBackupSize(outputPath: string): number {
+    const stats = fs.statSync(outputPath);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+    return fs
+      .readdirSync(outputPath)
+      .reduce(
+        (total, entry) =>
+          total + this.getBackupSize(path.join(outputPath, entry)),
+        0
+      );
+  }
+
   private extractDatabaseName(connectionString: string): string {
     try {
       // Parse connection string to extract database name
@@ -119,4 +494,15 @@ export class PostgreSQLClient {
       console.error(`Failed to cleanup backup file ${filePath}:`, error);
     }
   }
+
+  public async cleanupBackupDirectory(dirPath: string): Promise<void> {
+    try {
+      if (fs.existsSync(dirPath)) {
+        fs.rmSync(dirPath, { recursive: true, force: true });
+        console.log(`Cleaned up backup directory: ${dirPath}`);
+      }
+    } catch (error) {
+      console.error(`Failed to cleanup backup directory ${dirPath}:`, error);
+    }
+  }
 }
@@ -0,0 +1,170 @@
+import {
+  DEFAULT_PRESIGN_EXPIRY_SECONDS,
+  DEFAULT_PRESIGN_MAX_EXPIRY_SECONDS,
+  PresignManager,
+  PresignOptions,
+  PresignResult,
+  PresignSelector,
+  PresignedLink,
+} from '../interfaces/PresignManager';
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { S3Client } from '../s3/S3Client';
+import { BackupCandidate } from '../backup/BackupObjects';
+import { BackupCatalog } from '../catalog/BackupCatalog';
+import { formatTimestamp } from '../naming/BackupNaming';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+// Audit records of issued links, under S3_PATH
+export const PRESIGN_AUDIT_PREFIX = 'presign-audit';
+
+export interface PresignAuditRecord {
+  issuedAt: string;
+  expiresAt: string;
+  expiresIn: number;
+  requestedBy: string;
+  backup: string;
+  objects: string[]; // the URLs themselves are credentials and not recorded
+}
+
+/**
+ * Issues time-limited GET URLs for a backup, so a copy can be fetched without
+ * bucket credentials. Every issuance is recorded under the audit prefix
+ * before the links are handed out; without a record there are no links.
+ */
+export class PresignManagerImpl implements PresignManager {
+  private config: BackupConfig;
+  private storage: S3Client;
+  private catalog: BackupCatalog;
+
+  constructor(config: BackupConfig) {
+    if (config.storageBackend === 'filesystem') {
+      throw new Error('Presigned links require STORAGE_BACKEND=s3');
+    }
+    this.config = config;
+    this.storage = new S3Client(config);
+    this.catalog = new BackupCatalog(this.storage, config);
+  }
+
+  public async executePresign(options: PresignOptions): Promise<PresignResult> {
+    const start = Date.now();
+    try {
+      const expiresIn = this.expiresIn(options.expiresIn);
+      const backup = await this.selectBackup(
+        options.selector,
+        options.database
+      );
+
+      // Directory dumps uploaded as a prefix need a link per object
+      const objects = backup.format.prefix
+        ? await this.storage.listObjects(`${backup.key}/`)
+        : [backup];
+      const issuedAt = new Date();
+      const expiresAt = new Date(issuedAt.getTime() + expiresIn * 1000);
+      const links: PresignedLink[] = [];
+      for (const object of objects) {
+        links.push({
+          key: object.key,
+          size: object.size,
+          url: await this.storage.presignDownload(object.key, expiresIn),
+        });
+      }
+
+      const auditKey = await this.writeAuditRecord({
+        issuedAt: issuedAt.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        expiresIn,
+        requestedBy: options.requestedBy,
+        backup: backup.key,
+        objects: links.map((link) => link.key),
+      });
+
+      return {
+        success: true,
+        backup: backup.key,
+        links,
+        expiresAt: expiresAt.toISOString(),
+        auditKey,
+        duration: Date.now() - start,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        links: [],
+        duration: Date.now() - start,
+        error: error?.message || String(error),
+      };
+    }
+  }
+
+  private expiresIn(requested?: number): number {
+    const maximum =
+      this.config.presignMaxExpirySeconds ?? DEFAULT_PRESIGN_MAX_EXPIRY_SECONDS;
+    const expiresIn =
+      requested ??
+      this.config.presignExpirySeconds ??
+      DEFAULT_PRESIGN_EXPIRY_SECONDS;
+    if (expiresIn > maximum) {
+      throw new Error(
+        `Link expiry of ${expiresIn} seconds exceeds the maximum of ${maximum} (PRESIGN_MAX_EXPIRY_SECONDS)`
+      );
+    }
+    return expiresIn;
+  }
+
+  private async selectBackup(
+    selector: PresignSelector,
+    database?: string
+  ): Promise<BackupCandidate> {
+    if (
+      selector.type === 'latest' &&
+      this.config.backupAllDatabases &&
+      !database
+    ) {
+      throw new Error(
+        'A source database is required when BACKUP_ALL_DATABASES is enabled'
+      );
+    }
+
+    // Newest first, as recorded in the backup catalog
+    const backups = await this.catalog.listBackups(database);
+    if (selector.type === 'key') {
+      const selected = backups.find(
+        (backup) => backup.key === selector.key.replace(/\/$/, '')
+      );
+      if (!selected) {
+        throw new Error(`Backup not found: ${selector.key}`);
+      }
+      return selected;
+    }
+    const selected = backups[0];
+    if (!selected) {
+      const prefix = database
+        ? `${path.posix.join(this.config.s3Path, database)}/`
+        : this.config.s3Path;
+      throw new Error(`No backups found under ${prefix}`);
+    }
+    return selected;
+  }
+
+  private async writeAuditRecord(record: PresignAuditRecord): Promise<string> {
+    const key = path.posix.join(
+      this.config.s3Path || '',
+      PRESIGN_AUDIT_PREFIX,
+      `${formatTimestamp(new Date(record.issuedAt))}-${randomUUID().slice(0, 8)}.json`
+    );
+    try {
+      await this.storage.putObject(
+        key,
+        JSON.stringify(record, null, 2),
+        'application/json'
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to record the issued links, none were handed out: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    console.log(`Presigned links recorded in ${key}`);
+    return key;
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  BackupSelector,
+  RestoreManager,
+  RestoreOptions,
+  RestoreResult,
+} from '../interfaces/RestoreManager';
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { PostgreSQLClient } from '../postgres/PostgreSQLClient';
+import { StorageBackend } from '../interfaces/StorageBackend';
+import { createStorageBackend } from '../storage/StorageBackends';
+import { BackupCandidate } from '../backup/BackupObjects';
+import { BackupCatalog } from '../catalog/BackupCatalog';
+import { createDecompressor } from '../backup/Compression';
+import { BackupEncryption } from '../encryption/BackupEncryption';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as tar from 'tar';
+
+export class RestoreManagerImpl implements RestoreManager {
+  private config: BackupConfig;
+  private pgClient: PostgreSQLClient;
+  private storage: StorageBackend;
+  private encryption: BackupEncryption;
+  private catalog: BackupCatalog;
+
+  constructor(config: BackupConfig) {
+    this.config = config;
+    this.pgClient = new PostgreSQLClient(config);
+    this.storage = createStorageBackend(config);
+    this.encryption = new BackupEncryption(config);
+    this.catalog = new BackupCatalog(this.storage, config);
+  }
+
+  public async executeRestore(options: RestoreOptions): Promise<RestoreResult> {
+    const start = Date.now();
+    let fileName = '';
+    let fileSize = 0;
+    let s3Location = '';
+    let restoreDirPath = '';
+    try {
+      // 1. Pick the backup to restore
+      const backup = await this.selectBackup(
+        options.selector,
+        options.database
+      );
+      fileName = path.posix.basename(backup.key);
+      fileSize = backup.size;
+      s3Location = `${this.storage.location(backup.key)}${backup.format.prefix ? '/' : ''}`;
+
+      // 2. Refuse to overwrite existing data unless forced
+      const isEmpty = await this.pgClient.isDatabaseEmpty(
+        options.targetConnectionString
+      );
+      if (!isEmpty && !options.force) {
+        throw new Error(
+          'Target database is not empty; use --force to restore anyway'
+        );
+      }
+
+      // 3. Stream from S3 into psql or pg_restore
+      const format = backup.format.format;
+      if (backup.format.streamable) {
+        const body = await this.openObject(backup.key);
+        let input: Readable = body;
+        const decompressor = createDecompressor(backup.format.compression);
+        if (decompressor) {
+          body.on('error', (error) => decompressor.destroy(error));
+          input = body.pipe(decompressor);
+        }
+        await this.pgClient.restoreBackup(
+          input,
+          options.targetConnectionString,
+          format
+        );
+      } else {
+        // pg_restore can only read directory dumps from disk
+        restoreDirPath = path.join(os.tmpdir(), `${randomUUID()}-${fileName}`);
+        fs.mkdirSync(restoreDirPath, { recursive: true });
+        await this.downloadDirectory(backup, restoreDirPath);
+        await this.pgClient.restoreBackup(
+          restoreDirPath,
+          options.targetConnectionString,
+          format
+        );
+      }
+
+      return {
+        success: true,
+        fileName,
+        fileSize,
+        s3Location,
+        duration: Date.now() - start,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        fileName,
+        fileSize,
+        s3Location,
+        duration: Date.now() - start,
+        error: error?.message || String(error),
+      };
+    } finally {
+      if (restoreDirPath) {
+        await this.pgClient.cleanupBackupDirectory(restoreDirPath);
+      }
+    }
+  }
+
+  private async selectBackup(
+    selector: BackupSelector,
+    database?: string
+  ): Promise<BackupCandidate> {
+    // Cluster backups keep each database under its own prefix
+    if (this.config.backupAllDatabases && !database) {
+      throw new Error(
+        'A source database is required when BACKUP_ALL_DATABASES is enabled'
+      );
+    }
+    const prefix = database
+      ? `${path.posix.join(this.config.s3Path, database)}/`
+      : this.config.s3Path;
+
+    // Newest first, as recorded in the backup catalog
+    const backups = await this.catalog.listBackups(database);
+
+    let selected: BackupCandidate | undefined;
+    switch (selector.type) {
+      case 'key':
+        selected = backups.find(
+          (object) => object.key === selector.key.replace(/\/$/, '')
+        );
+        if (!selected) {
+          throw new Error(`Backup not found: ${selector.key}`);
+        }
+        break;
+      case 'latest':
+        selected = backups[0];
+        if (!selected) {
+          throw new Error(`No backups found under ${prefix}`);
+        }
+        break;
+      case 'before':
+        selected = backups.find(
+          (object) => object.lastModified <= selector.timestamp
+        );
+        if (!selected) {
+          throw new Error(
+            `No backup found before ${selector.timestamp.toISOString()}`
+          );
+        }
+        break;
+    }
+
+    return selected;
+  }
+
+  private async downloadDirectory(
+    backup: BackupCandidate,
+    dirPath: string
+  ): Promise<void> {
+    if (!backup.format.prefix) {
+      const body = await this.openObject(backup.key);
+      await new Promise<void>((resolve, reject) => {
+        const unpack = tar.extract({ cwd: dirPath });
+        body.on('error', reject);
+        unpack.on('error', reject);
+        unpack.on('close', () => resolve());
+        body.pipe(unpack);
+      });
+      return;
+    }
+
+    const objects = await this.storage.listObjects(`${backup.key}/`);
+    for (const object of objects) {
+      const body = await this.openObject(object.key);
+      await pipeline(
+        body,
+        fs.createWriteStream(
+          path.join(dirPath, path.posix.basename(object.key))
+        )
+      );
+    }
+  }
+
+  // Decrypt transparently whenever the object metadata says it is encrypted
+  private async openObject(key: string): Promise<Readable> {
+    const { body, metadata } = await this.storage.downloadObject(key);
+    if (!BackupEncryption.isEncrypted(metadata)) {
+      return body;
+    }
+    try {
+      return this.encryption.decrypt(body, metadata, key);
+    } catch (error) {
+      body.destroy();
+      throw error;
+    }
+  }
+}
@@ -1,71 +1,236 @@
-import { S3Client } from '../s3/S3Client';
-import { BackupConfig } from '../interfaces/BackupConfig';
-import { S3Object } from '../interfaces/S3Client';
+import {
+  StorageBackend,
+  StorageObjectHead,
+} from '../interfaces/StorageBackend';
+import {
+  BackupConfig,
+  S3StorageClass,
+  StorageTier,
+} from '../interfaces/BackupConfig';
+import { BackupMetadata } from '../types/BackupMetadata';
+import { BackupCatalog } from '../catalog/BackupCatalog';
+import {
+  RetentionDecision,
+  checkRetentionGuard,
+  describeRetentionPolicy,
+  evaluateRetention,
+  hasRetentionPolicy,
+} from './RetentionPolicy';
+import {
+  RetentionReport,
+  buildRetentionReport,
+  formatRetentionReport,
+} from './RetentionReport';
+import {
+  describeTieringPolicy,
+  needsTiering,
+  targetTier,
+} from './TieringPolicy';
+import { formatTimestamp } from '../naming/BackupNaming';
+import { hasObjectLock } from '../s3/StorageOptions';
+import { mapWithConcurrency } from '../utils/Concurrency';
+import * as path from 'path';
+
+// Audit reports of real retention runs, under S3_PATH
+export const RETENTION_REPORT_PREFIX = 'retention-reports';
+
+// Objects headed or copied at once when checking locks and moving tiers
+const OBJECT_CONCURRENCY = 8;
+
+export interface BackupStats {
+  totalBackups: number;
+  expiredBackups: number;
+  totalSize: number;
+  expiredSize: number;
+  decisions: RetentionDecision[]; // which rule kept or expired each backup
+}
 
 export class RetentionManager {
-  private s3Client: S3Client;
+  private storage: StorageBackend;
   private config: BackupConfig;
+  private catalog: BackupCatalog;
 
-  constructor(s3Client: S3Client, config: BackupConfig) {
-    this.s3Client = s3Client;
+  constructor(storage: StorageBackend, config: BackupConfig) {
+    this.storage = storage;
     this.config = config;
+    this.catalog = new BackupCatalog(storage, config);
   }
 
   public async cleanupExpiredBackups(): Promise<number> {
-    if (!this.config.retentionDays) {
-      console.log('No retention period configured, skipping cleanup');
+    if (!hasRetentionPolicy(this.config) && !this.config.tiering) {
+      console.log('No retention policy configured, skipping cleanup');
       return 0;
     }
 
+    const dryRun = this.config.retentionDryRun ?? false;
+    const report = await this.runRetention({ dryRun });
+    if (dryRun) {
+      console.log(formatRetentionReport(report, 'table'));
+    }
+    return report.deleted;
+  }
+
+  /**
+   * Applies the retention policy to the catalog and reports the decision for
+   * every backup, moving kept backups along the tiering policy. Dry runs stop
+   * there; real runs delete the expired backups and store the report under
+   * the audit prefix whenever they deleted or moved something or were halted.
+   */
+  public async runRetention(options: {
+    dryRun: boolean;
+  }): Promise<RetentionReport> {
+    const now = new Date();
+    const tiers = this.config.tiering;
+    const policy = tiers
+      ? `${describeRetentionPolicy(this.config)}, ${describeTieringPolicy(tiers)}`
+      : describeRetentionPolicy(this.config);
     try {
       console.log(
-        `Starting cleanup of backups older than ${this.config.retentionDays} days`
+        `Starting ${options.dryRun ? 'dry run of ' : ''}cleanup of expired backups, ${policy}`
       );
 
-      // Calculate cutoff date
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
-
-      console.log(`Cutoff date for deletion: ${cutoffDate.toISOString()}`);
+      // Every backup recorded in the catalog
+      const backups = await this.catalog.load();
 
-      // List all backup objects in the configured path
-      const objects = await this.s3Client.listObjects(this.config.s3Path);
+      if (backups.length === 0) {
+        console.log('No backups found to check for cleanup');
+      }
 
-      if (objects.length === 0) {
-        console.log('No backup objects found to check for cleanup');
-        return 0;
+      // Refuse to delete anything while backups are not being refreshed
+      const halted = checkRetentionGuard(backups, this.config, now);
+      if (halted) {
+        console.error(
+          `RETENTION HALTED: ${halted}. No backups were deleted; check why recent backups are failing.`
+        );
       }
 
-      // Filter objects that match backup naming pattern and are older than retention period
-      const expiredObjects = this.filterExpiredBackups(objects, cutoffDate);
+      const decisions = evaluateRetention(backups, this.config, now);
+      const expiredBackups = decisions.filter((decision) => !decision.keep);
+      const errors = new Map<string, string>();
+
+      // Moving tiers only changes where kept backups are billed, so it goes
+      // on while deletion is halted
+      const moved = tiers
+        ? await this.applyTiering(tiers, decisions, now, options, errors)
+        : new Map<string, { storageClass: S3StorageClass; bytes: number }>();
+      const reportOptions = {
+        dryRun: options.dryRun,
+        policy,
+        now,
+        ...(halted ? { halted } : {}),
+        moved,
+      };
 
-      if (expiredObjects.length === 0) {
-        console.log('No expired backups found for cleanup');
-        return 0;
+      if (options.dryRun) {
+        const report = buildRetentionReport(decisions, {
+          ...reportOptions,
+          errors,
+        });
+        console.log(
+          `Dry run: ${report.expired} of ${report.entries.length} backups would be deleted`
+        );
+        return report;
       }
 
-      console.log(`Found ${expiredObjects.length} expired backups to delete`);
+      if (expiredBackups.length === 0) {
+        if (backups.length > 0 && !halted) {
+          console.log('No expired backups found for cleanup');
+        }
+      } else {
+        console.log(`Found ${expiredBackups.length} expired backups to delete`);
+      }
 
-      // Delete expired backups
-      let deletedCount = 0;
-      for (const object of expiredObjects) {
+      // Delete expired backups in batches, then drop them from the catalog in
+      // one update. A backup counts as deleted once all of its objects are.
+      const deletedKeys: string[] = [];
+      const objectKeys = new Map<RetentionDecision, string[]>();
+      for (const decision of expiredBackups) {
         try {
-          await this.s3Client.deleteObject(object.key);
-          deletedCount++;
-          console.log(`Deleted expired backup: ${object.key}`);
-        } catch (error) {
+          objectKeys.set(
+            decision,
+            await this.backupObjectKeys(decision.backup)
+          );
+        } catch (error: any) {
           console.error(
-            `Failed to delete expired backup ${object.key}:`,
+            `Failed to list objects of expired backup ${decision.backup.s3Key}:`,
             error
           );
-          // Continue with other deletions even if one fails
+          errors.set(decision.backup.s3Key, error?.message || String(error));
         }
       }
 
-      console.log(
-        `Cleanup completed: ${deletedCount}/${expiredObjects.length} expired backups deleted`
+      // Locked objects cannot be deleted; they are left in place and in the
+      // catalog for a run after the lock has expired. Object Lock buckets are
+      // versioned, so that run deletes every version by its VersionId instead
+      // of hiding the backup behind a delete marker.
+      const locked = new Map<string, string>();
+      if (hasObjectLock(this.config)) {
+        for (const [decision, keys] of objectKeys) {
+          const { s3Key } = decision.backup;
+          try {
+            const lock = await this.findObjectLock(keys, now);
+            if (lock) {
+              objectKeys.delete(decision);
+              locked.set(s3Key, lock);
+              console.log(`Skipping expired backup ${s3Key}: ${lock}`);
+            }
+          } catch (error: any) {
+            objectKeys.delete(decision);
+            console.error(
+              `Failed to check the Object Lock of ${s3Key}:`,
+              error
+            );
+            errors.set(s3Key, error?.message || String(error));
+          }
+        }
+      }
+
+      const keys = [...objectKeys.values()].flat();
+      const result =
+        keys.length > 0
+          ? await this.storage.deleteObjects(keys, {
+              allVersions: hasObjectLock(this.config),
+            })
+          : { deleted: [], errors: [] };
+      const failed = new Map(
+        result.errors.map((failure) => [failure.key, failure.error])
       );
-      return deletedCount;
+      for (const [{ backup, reasons }, keys] of objectKeys) {
+        const failures = keys.filter((key) => failed.has(key));
+        if (failures.length === 0) {
+          deletedKeys.push(backup.s3Key);
+          console.log(
+            `Deleted expired backup: ${backup.s3Key} (${reasons.join('; ')})`
+          );
+          continue;
+        }
+        const message =
+          keys.length === 1
+            ? failed.get(failures[0]!)!
+            : `${failures.length} of ${keys.length} objects not deleted, first: ${failed.get(failures[0]!)}`;
+        console.error(
+          `Failed to delete expired backup ${backup.s3Key}: ${message}`
+        );
+        errors.set(backup.s3Key, message);
+      }
+
+      if (deletedKeys.length > 0) {
+        await this.catalog.remove(deletedKeys);
+      }
+
+      const report = buildRetentionReport(decisions, {
+        ...reportOptions,
+        errors,
+        locked,
+        deleteErrors: result.errors,
+      });
+      if (expiredBackups.length > 0 || halted || moved.size > 0) {
+        await this.writeAuditReport(report, now);
+        console.log(
+          `Cleanup completed: ${deletedKeys.length}/${expiredBackups.length} expired backups deleted${locked.size > 0 ? `, ${locked.size} still locked` : ''}${moved.size > 0 ? `, ${moved.size} moved to colder storage` : ''}`
+        );
+      }
+      return report;
     } catch (error) {
       console.error('Failed to cleanup expired backups:', error);
       throw new Error(
@@ -74,73 +239,140 @@ export class RetentionManager {
     }
   }
 
-  private filterExpiredBackups(
-    objects: S3Object[],
-    cutoffDate: Date
-  ): S3Object[] {
-    const backupPattern =
-      /^.*\/postgres-backup-\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.sql\.gz$/;
+  // The deletions already happened, so a failed audit write is only logged
+  private async writeAuditReport(
+    report: RetentionReport,
+    now: Date
+  ): Promise<void> {
+    const key = path.posix.join(
+      this.config.s3Path || '',
+      RETENTION_REPORT_PREFIX,
+      `${formatTimestamp(now)}.json`
+    );
+    try {
+      await this.storage.putObject(
+        key,
+        JSON.stringify(report, null, 2),
+        'application/json'
+      );
+      console.log(`Retention report written to ${key}`);
+    } catch (error) {
+      console.error(`Failed to write retention report ${key}:`, error);
+    }
+  }
 
-    return objects.filter((object) => {
-      // Check if object matches backup naming pattern
-      if (!backupPattern.test(object.key)) {
-        return false;
+  private async backupObjectKeys(backup: BackupMetadata): Promise<string[]> {
+    // Failed runs are only recorded; nothing was stored under their key
+    if (backup.status === 'failed') {
+      return [];
+    }
+    if (!backup.prefix) {
+      return [backup.s3Key];
+    }
+    const keys: string[] = [];
+    for await (const object of this.storage.iterateObjects(
+      `${backup.s3Key}/`
+    )) {
+      keys.push(object.key);
+    }
+    return keys;
+  }
+
+  /**
+   * Copies the objects of each kept backup into the coldest tier its age has
+   * reached. Objects already in that tier or a colder one are skipped, so a
+   * run only copies what became due; dry runs only read. Returns the backups
+   * moved with the bytes each one moved.
+   */
+  private async applyTiering(
+    tiers: StorageTier[],
+    decisions: RetentionDecision[],
+    now: Date,
+    options: { dryRun: boolean },
+    errors: Map<string, string>
+  ): Promise<Map<string, { storageClass: S3StorageClass; bytes: number }>> {
+    const moved = new Map<
+      string,
+      { storageClass: S3StorageClass; bytes: number }
+    >();
+    for (const { backup, keep } of decisions) {
+      const storageClass = targetTier(tiers, backup.timestamp, now);
+      if (!keep || !storageClass) {
+        continue;
       }
+      try {
+        const heads = await mapWithConcurrency(
+          await this.backupObjectKeys(backup),
+          OBJECT_CONCURRENCY,
+          (key) => this.storage.headObject(key)
+        );
+        const due = heads.filter(
+          (head): head is StorageObjectHead =>
+            head !== null &&
+            needsTiering(head.storageClass ?? 'STANDARD', storageClass)
+        );
+        if (due.length === 0) {
+          continue;
+        }
+        // The copy would be locked as well and the old version could not be
+        // deleted, so the backup would be stored twice
+        const lock = describeObjectLock(due, now);
+        if (lock) {
+          console.warn(
+            `Not moving backup ${backup.s3Key} to ${storageClass}: ${lock}`
+          );
+          continue;
+        }
+        if (!options.dryRun) {
+          await mapWithConcurrency(due, OBJECT_CONCURRENCY, (head) =>
+            this.storage.changeStorageClass(head.key, storageClass)
+          );
+          console.log(`Moved backup ${backup.s3Key} to ${storageClass}`);
+        }
+        moved.set(backup.s3Key, {
+          storageClass,
+          bytes: due.reduce((sum, head) => sum + head.size, 0),
+        });
+      } catch (error: any) {
+        console.error(
+          `Failed to move backup ${backup.s3Key} to ${storageClass}:`,
+          error
+        );
+        errors.set(backup.s3Key, error?.message || String(error));
+      }
+    }
+    return moved;
+  }
 
-      // Check if object is older than cutoff date
-      return object.lastModified < cutoffDate;
-    });
+  // Why any of the backup objects cannot be deleted yet
+  private async findObjectLock(
+    keys: string[],
+    now: Date
+  ): Promise<string | undefined> {
+    const heads = await mapWithConcurrency(keys, OBJECT_CONCURRENCY, (key) =>
+      this.storage.headObject(key)
+    );
+    return describeObjectLock(heads, now);
   }
 
-  public async getBackupStats(): Promise<{
-    totalBackups: number;
-    expiredBackups: number;
-    totalSize: number;
-    expiredSize: number;
-  }> {
+  public async getBackupStats(): Promise<BackupStats> {
     try {
-      const objects = await this.s3Client.listObjects(this.config.s3Path);
-
-      if (objects.length === 0) {
-        return {
-          totalBackups: 0,
-          expiredBackups: 0,
-          totalSize: 0,
-          expiredSize: 0,
-        };
-      }
-
-      const backupPattern =
-        /^.*\/postgres-backup-\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.sql\.gz$/;
-      const backupObjects = objects.filter((obj) =>
-        backupPattern.test(obj.key)
+      const backups = (await this.catalog.load()).filter(
+        (backup) => backup.status === 'completed'
       );
-
-      let totalSize = 0;
-      let expiredSize = 0;
-      let expiredCount = 0;
-
-      if (this.config.retentionDays) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
-
-        for (const obj of backupObjects) {
-          totalSize += obj.size;
-          if (obj.lastModified < cutoffDate) {
-            expiredCount++;
-            expiredSize += obj.size;
-          }
-        }
-      } else {
-        // No retention configured, all backups are considered current
-        totalSize = backupObjects.reduce((sum, obj) => sum + obj.size, 0);
-      }
+      // Without a retention policy all backups are considered current
+      const decisions = evaluateRetention(backups, this.config);
+      const expired = decisions.filter((decision) => !decision.keep);
 
       return {
-        totalBackups: backupObjects.length,
-        expiredBackups: expiredCount,
-        totalSize,
-        expiredSize,
+        totalBackups: backups.length,
+        expiredBackups: expired.length,
+        totalSize: backups.reduce((sum, backup) => sum + backup.fileSize, 0),
+        expiredSize: expired.reduce(
+          (sum, decision) => sum + decision.backup.fileSize,
+          0
+        ),
+        decisions,
       };
     } catch (error) {
       console.error('Failed to get backup stats:', error);
@@ -150,17 +382,16 @@ export class RetentionManager {
     }
   }
 
-  public async listExpiredBackups(): Promise<S3Object[]> {
-    if (!this.config.retentionDays) {
+  public async listExpiredBackups(): Promise<RetentionDecision[]> {
+    if (!hasRetentionPolicy(this.config)) {
       return [];
     }
 
     try {
-      const objects = await this.s3Client.listObjects(this.config.s3Path);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
-
-      return this.filterExpiredBackups(objects, cutoffDate);
+      const backups = await this.catalog.load();
+      return evaluateRetention(backups, this.config).filter(
+        (decision) => !decision.keep
+      );
     } catch (error) {
       console.error('Failed to list expired backups:', error);
       throw new Error(
@@ -172,14 +403,14 @@ export class RetentionManager {
   public async validateRetentionConfiguration(): Promise<boolean> {
     try {
       // Test S3 connection
-      const s3Connected = await this.s3Client.testConnection();
+      const s3Connected = await this.storage.testConnection();
       if (!s3Connected) {
         console.error('Retention validation failed: Cannot connect to S3');
         return false;
       }
 
       // Test listing objects
-      await this.s3Client.listObjects(this.config.s3Path);
+      await this.storage.listObjects(this.config.s3Path);
 
       console.log('Retention configuration validation successful');
       return true;
@@ -189,3 +420,19 @@ export class RetentionManager {
     }
   }
 }
+
+// Why any of the objects cannot be deleted or replaced yet, undefined when
+// none is locked
+function describeObjectLock(
+  heads: (StorageObjectHead | null)[],
+  now: Date
+): string | undefined {
+  if (heads.some((head) => head?.legalHold)) {
+    return 'under legal hold';
+  }
+  const lockedUntil = heads
+    .map((head) => head?.lockedUntil)
+    .filter((date): date is Date => date !== undefined && date > now)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+  return lockedUntil ? `locked until ${lockedUntil.toISOString()}` : undefined;
+}
@@ -0,0 +1,300 @@
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { BackupMetadata } from '../types/BackupMetadata';
+
+export type RetentionRule =
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'yearly';
+
+export interface RetentionDecision {
+  backup: BackupMetadata;
+  keep: boolean;
+  reasons: string[]; // every rule that kept the backup, or why none did
+}
+
+interface RuleDefinition {
+  rule: RetentionRule;
+  count: (config: BackupConfig) => number | undefined;
+  period: (timestamp: Date) => string;
+}
+
+// Periods are calendar buckets in UTC, matching the timestamps in backup names
+const GFS_RULES: RuleDefinition[] = [
+  {
+    rule: 'hourly',
+    count: (config) => config.retentionHourly,
+    period: (timestamp) => timestamp.toISOString().slice(0, 13),
+  },
+  {
+    rule: 'daily',
+    count: (config) => config.retentionDaily,
+    period: (timestamp) => timestamp.toISOString().slice(0, 10),
+  },
+  {
+    rule: 'weekly',
+    count: (config) => config.retentionWeekly,
+    period: isoWeek,
+  },
+  {
+    rule: 'monthly',
+    count: (config) => config.retentionMonthly,
+    period: (timestamp) => timestamp.toISOString().slice(0, 7),
+  },
+  {
+    rule: 'yearly',
+    count: (config) => config.retentionYearly,
+    period: (timestamp) => timestamp.toISOString().slice(0, 4),
+  },
+];
+
+export function hasRetentionPolicy(config: BackupConfig): boolean {
+  return (
+    Boolean(config.retentionDays) ||
+    Boolean(config.retentionKeepLast) ||
+    activeRules(config).length > 0
+  );
+}
+
+export function describeRetentionPolicy(config: BackupConfig): string {
+  const parts = activeRules(config).map(
+    (definition) => `${definition.count(config)} ${definition.rule}`
+  );
+  if (config.retentionKeepLast) {
+    parts.unshift(`the last ${config.retentionKeepLast}`);
+  }
+  if (config.retentionDays) {
+    parts.unshift(`everything from the last ${config.retentionDays} days`);
+  }
+  const minimum = minimumBackups(config);
+  if (minimum > 0) {
+    parts.push(`at least ${minimum} per database`);
+  }
+  return parts.length > 0 ? `keeping ${parts.join(', ')}` : 'keeping all';
+}
+
+/**
+ * Returns why retention must not delete anything, or undefined when it may.
+ * If backups have been failing for longer than BACKUP_RETENTION_DAYS, every
+ * completed backup is past the cutoff; deleting them would leave nothing to
+ * restore, so cleanup stops until a new backup succeeds.
+ */
+export function checkRetentionGuard(
+  backups: BackupMetadata[],
+  config: BackupConfig,
+  now: Date = new Date()
+): string | undefined {
+  if (!config.retentionDays) {
+    return undefined;
+  }
+  const newest = newestCompleted(backups);
+  const cutoff = retentionCutoff(config.retentionDays, now);
+  if (newest && newest.timestamp < cutoff) {
+    return `newest backup ${newest.s3Key} from ${newest.timestamp.toISOString()} is older than the ${config.retentionDays} day cutoff`;
+  }
+  return undefined;
+}
+
+/**
+ * Decides which catalog entries to keep. A backup is kept when any rule keeps
+ * it: BACKUP_RETENTION_DAYS keeps everything newer than the cutoff, each
+ * grandfather-father-son rule keeps the newest backup of each of its last N
+ * periods, and BACKUP_RETENTION_KEEP_LAST keeps the newest N. Count-based
+ * rules run per database, and globals form a series of their own, so a run
+ * whose dump failed for one database does not use up a slot of another.
+ * Failed runs are not eligible for those slots; they stay until a later
+ * backup of the same series succeeds. Each series always keeps its newest
+ * BACKUP_RETENTION_MIN_BACKUPS completed backups, and nothing is deleted
+ * while checkRetentionGuard() objects.
+ */
+export function evaluateRetention(
+  backups: BackupMetadata[],
+  config: BackupConfig,
+  now: Date = new Date()
+): RetentionDecision[] {
+  if (!hasRetentionPolicy(config)) {
+    return backups.map((backup) => ({
+      backup,
+      keep: true,
+      reasons: ['no retention policy'],
+    }));
+  }
+
+  const guard = checkRetentionGuard(backups, config, now);
+  if (guard) {
+    return backups.map((backup) => ({
+      backup,
+      keep: true,
+      reasons: [`retention halted: ${guard}`],
+    }));
+  }
+
+  const reasons = new Map<BackupMetadata, string[]>(
+    backups.map((backup) => [backup, []])
+  );
+
+  if (config.retentionDays) {
+    const cutoff = retentionCutoff(config.retentionDays, now);
+    for (const backup of backups) {
+      if (backup.timestamp >= cutoff) {
+        reasons.get(backup)!.push(`within ${config.retentionDays} days`);
+      }
+    }
+  }
+
+  const rules = activeRules(config);
+  const countBased = rules.length > 0 || Boolean(config.retentionKeepLast);
+  const minimum = minimumBackups(config);
+  const superseded = new Set<BackupMetadata>();
+  for (const series of groupSeries(backups)) {
+    const completed = series.filter((backup) => backup.status === 'completed');
+
+    if (config.retentionKeepLast) {
+      for (const backup of completed.slice(0, config.retentionKeepLast)) {
+        reasons.get(backup)!.push(`last ${config.retentionKeepLast}`);
+      }
+    }
+    for (const definition of rules) {
+      applyRule(definition, definition.count(config)!, completed, reasons);
+    }
+
+    // Top up to the minimum with the newest backups not kept otherwise
+    let kept = completed.filter(
+      (backup) => reasons.get(backup)!.length > 0
+    ).length;
+    for (const backup of completed) {
+      if (kept >= minimum) {
+        break;
+      }
+      if (reasons.get(backup)!.length === 0) {
+        reasons.get(backup)!.push(`minimum of ${minimum} backups`);
+        kept++;
+      }
+    }
+
+    if (!countBased) {
+      continue;
+    }
+    const newest = completed[0]?.timestamp;
+    for (const backup of series) {
+      if (backup.status !== 'failed') {
+        continue;
+      }
+      if (newest && backup.timestamp < newest) {
+        superseded.add(backup);
+      } else {
+        reasons.get(backup)!.push('failed run, no later backup yet');
+      }
+    }
+  }
+
+  return backups.map((backup) => {
+    const kept = reasons.get(backup)!;
+    if (kept.length > 0) {
+      return { backup, keep: true, reasons: kept };
+    }
+    return {
+      backup,
+      keep: false,
+      reasons: [expiryReason(backup, config, rules, superseded.has(backup))],
+    };
+  });
+}
+
+// At least one backup per series is kept unless set to 0
+function minimumBackups(config: BackupConfig): number {
+  return config.retentionMinBackups ?? 1;
+}
+
+function retentionCutoff(retentionDays: number, now: Date): Date {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - retentionDays);
+  return cutoff;
+}
+
+function newestCompleted(
+  backups: BackupMetadata[]
+): BackupMetadata | undefined {
+  return backups
+    .filter((backup) => backup.status === 'completed')
+    .reduce<
+      BackupMetadata | undefined
+    >((newest, backup) => (!newest || backup.timestamp > newest.timestamp ? backup : newest), undefined);
+}
+
+function activeRules(config: BackupConfig): RuleDefinition[] {
+  return GFS_RULES.filter((definition) => (definition.count(config) ?? 0) > 0);
+}
+
+// Newest first, so the first backup seen in a period is the one kept
+function applyRule(
+  definition: RuleDefinition,
+  count: number,
+  backups: BackupMetadata[],
+  reasons: Map<BackupMetadata, string[]>
+): void {
+  const periods = new Set<string>();
+  for (const backup of backups) {
+    if (periods.size >= count) {
+      return;
+    }
+    const period = definition.period(backup.timestamp);
+    if (!periods.has(period)) {
+      periods.add(period);
+      reasons.get(backup)!.push(`${definition.rule} ${period}`);
+    }
+  }
+}
+
+function groupSeries(backups: BackupMetadata[]): BackupMetadata[][] {
+  const series = new Map<string, BackupMetadata[]>();
+  for (const backup of backups) {
+    const id = `${backup.kind}:${backup.databaseName}`;
+    series.set(id, [...(series.get(id) || []), backup]);
+  }
+  return [...series.values()].map((entries) =>
+    entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+  );
+}
+
+function expiryReason(
+  backup: BackupMetadata,
+  config: BackupConfig,
+  rules: RuleDefinition[],
+  superseded: boolean
+): string {
+  if (superseded) {
+    return 'failed run, superseded by a later backup';
+  }
+  const parts: string[] = [];
+  if (config.retentionDays) {
+    parts.push(`older than ${config.retentionDays} days`);
+  }
+  if (config.retentionKeepLast && backup.status === 'completed') {
+    parts.push(`not among the last ${config.retentionKeepLast}`);
+  }
+  if (rules.length > 0 && backup.status === 'completed') {
+    parts.push(
+      `not selected by the ${rules.map((definition) => definition.rule).join(', ')} rules`
+    );
+  }
+  return parts.join(' and ');
+}
+
+// ISO 8601 week, e.g. 2024-W01; weeks start on Monday and belong to the year
+// holding their Thursday
+function isoWeek(timestamp: Date): string {
+  const date = new Date(
+    Date.UTC(
+      timestamp.getUTCFullYear(),
+      timestamp.getUTCMonth(),
+      timestamp.getUTCDate()
+    )
+  );
+  const day = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
@@ -0,0 +1,188 @@
+import { RetentionDecision } from './RetentionPolicy';
+import { StorageDeleteError } from '../interfaces/StorageBackend';
+import { S3StorageClass } from '../interfaces/BackupConfig';
+
+export type RetentionReportFormat = 'table' | 'json';
+
+export interface RetentionReportEntry {
+  key: string;
+  action: 'delete' | 'keep';
+  reason: string;
+  databaseName: string;
+  timestamp: string;
+  ageDays: number;
+  size: number;
+  error?: string; // the deletion or move failed and the backup is unchanged
+  locked?: string; // expired but protected by Object Lock, deleted later
+  tier?: S3StorageClass; // kept and moved to this storage class
+}
+
+// Bytes moved to one storage class of the tiering policy
+export interface TierMove {
+  storageClass: S3StorageClass;
+  backups: number;
+  bytes: number;
+}
+
+export interface RetentionReport {
+  generatedAt: string;
+  dryRun: boolean;
+  policy: string;
+  halted?: string; // why nothing was deleted
+  deleted: number; // 0 for dry runs
+  expired: number;
+  expiredSize: number;
+  kept: number;
+  keptSize: number;
+  entries: RetentionReportEntry[];
+  tiered?: TierMove[]; // what was moved, or would be in a dry run
+  deleteErrors?: StorageDeleteError[]; // every object S3 refused to delete
+}
+
+export interface RetentionReportOptions {
+  dryRun: boolean;
+  policy: string;
+  now: Date;
+  halted?: string;
+  errors?: Map<string, string>; // s3Key to deletion or move error
+  locked?: Map<string, string>; // s3Key to the lock that kept it
+  moved?: Map<string, { storageClass: S3StorageClass; bytes: number }>;
+  deleteErrors?: StorageDeleteError[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function buildRetentionReport(
+  decisions: RetentionDecision[],
+  options: RetentionReportOptions
+): RetentionReport {
+  const entries = decisions.map(
+    ({ backup, keep, reasons }): RetentionReportEntry => {
+      const error = options.errors?.get(backup.s3Key);
+      const locked = options.locked?.get(backup.s3Key);
+      const moved = options.moved?.get(backup.s3Key);
+      return {
+        key: backup.s3Key,
+        action: keep ? 'keep' : 'delete',
+        reason: reasons.join('; '),
+        databaseName: backup.databaseName,
+        timestamp: backup.timestamp.toISOString(),
+        ageDays:
+          Math.floor(
+            ((options.now.getTime() - backup.timestamp.getTime()) / DAY_MS) * 10
+          ) / 10,
+        size: backup.fileSize,
+        ...(error ? { error } : {}),
+        ...(locked ? { locked } : {}),
+        ...(moved ? { tier: moved.storageClass } : {}),
+      };
+    }
+  );
+  const tiered = new Map<S3StorageClass, TierMove>();
+  for (const { storageClass, bytes } of options.moved?.values() ?? []) {
+    const move = tiered.get(storageClass) ?? {
+      storageClass,
+      backups: 0,
+      bytes: 0,
+    };
+    move.backups++;
+    move.bytes += bytes;
+    tiered.set(storageClass, move);
+  }
+  const expired = entries.filter((entry) => entry.action === 'delete');
+  const kept = entries.filter((entry) => entry.action === 'keep');
+
+  return {
+    generatedAt: options.now.toISOString(),
+    dryRun: options.dryRun,
+    policy: options.policy,
+    ...(options.halted ? { halted: options.halted } : {}),
+    deleted: options.dryRun
+      ? 0
+      : expired.filter((entry) => !entry.error && !entry.locked).length,
+    expired: expired.length,
+    expiredSize: sumSizes(expired),
+    kept: kept.length,
+    keptSize: sumSizes(kept),
+    entries,
+    ...(tiered.size > 0 ? { tiered: [...tiered.values()] } : {}),
+    ...(options.deleteErrors?.length
+      ? { deleteErrors: options.deleteErrors }
+      : {}),
+  };
+}
+
+export function formatRetentionReport(
+  report: RetentionReport,
+  format: RetentionReportFormat
+): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const rows = [
+    ['ACTION', 'KEY', 'AGE', 'SIZE', 'REASON'],
+    ...report.entries.map((entry) => {
+      const note =
+        entry.error || entry.locked || (entry.tier && `to ${entry.tier}`);
+      return [
+        entry.error
+          ? 'failed'
+          : entry.locked
+            ? 'locked'
+            : entry.tier
+              ? 'move'
+              : entry.action,
+        entry.key,
+        `${entry.ageDays}d`,
+        formatSize(entry.size),
+        note ? `${entry.reason} (${note})` : entry.reason,
+      ];
+    }),
+  ];
+  const widths = rows[0]!.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]!.length))
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column === row.length - 1 ? cell : cell.padEnd(widths[column]!)
+      )
+      .join('  ')
+  );
+
+  const verb = report.dryRun ? 'would delete' : 'deleted';
+  lines.push(
+    '',
+    `${report.policy}: ${verb} ${report.dryRun ? report.expired : report.deleted} backups (${formatSize(report.expiredSize)}), keeping ${report.kept} (${formatSize(report.keptSize)})`
+  );
+  if (report.tiered) {
+    lines.push(
+      `Tiering: ${report.dryRun ? 'would move' : 'moved'} ${report.tiered
+        .map(
+          (move) =>
+            `${move.backups} backups (${formatSize(move.bytes)}) to ${move.storageClass}`
+        )
+        .join(', ')}`
+    );
+  }
+  if (report.halted) {
+    lines.push(`Retention halted: ${report.halted}`);
+  }
+  return lines.join('\n');
+}
+
+function sumSizes(entries: RetentionReportEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
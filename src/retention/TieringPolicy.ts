@@ -0,0 +1,92 @@
+import { S3StorageClass, StorageTier } from '../interfaces/BackupConfig';
+import { STORAGE_CLASSES } from '../s3/StorageOptions';
+
+// Classes a backup can be moved to; all of them are readable right away
+export const TIERING_STORAGE_CLASSES: S3StorageClass[] = STORAGE_CLASSES.filter(
+  (storageClass) => storageClass !== 'STANDARD'
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// From the warmest class to the coldest, by the cost of keeping a backup
+const STORAGE_CLASS_RANKS: Record<S3StorageClass, number> = {
+  STANDARD: 0,
+  INTELLIGENT_TIERING: 1,
+  STANDARD_IA: 2,
+  ONEZONE_IA: 3,
+  GLACIER_IR: 4,
+};
+
+// Classes outside the list, such as GLACIER or DEEP_ARCHIVE set by a bucket
+// lifecycle rule, are colder than any tier
+function storageClassRank(storageClass: string): number {
+  return storageClass in STORAGE_CLASS_RANKS
+    ? STORAGE_CLASS_RANKS[storageClass as S3StorageClass]
+    : Infinity;
+}
+
+/**
+ * Parses BACKUP_TIERING, a comma-separated list of storage classes and the
+ * age in days at which backups move there, such as
+ * `STANDARD_IA:30,GLACIER_IR:90`. Tiers are listed from the youngest to the
+ * oldest, so each one is colder than the one before.
+ */
+export function parseTieringPolicy(
+  value: string,
+  variable = 'BACKUP_TIERING'
+): StorageTier[] {
+  const tiers: StorageTier[] = [];
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  for (const entry of entries) {
+    const [storageClass, days, ...rest] = entry.split(':');
+    const afterDays = Number(days);
+    if (rest.length > 0 || !Number.isInteger(afterDays) || afterDays < 1) {
+      throw new Error(
+        `${variable} entries must be STORAGE_CLASS:days with at least 1 day: ${entry}`
+      );
+    }
+    if (!TIERING_STORAGE_CLASSES.includes(storageClass as S3StorageClass)) {
+      throw new Error(
+        `${variable} storage classes must be one of: ${TIERING_STORAGE_CLASSES.join(', ')}`
+      );
+    }
+    const previous = tiers.at(-1);
+    if (
+      previous &&
+      (afterDays <= previous.afterDays ||
+        storageClassRank(storageClass!) <=
+          storageClassRank(previous.storageClass))
+    ) {
+      throw new Error(
+        `${variable} must list each storage class once, by increasing age, each colder than the one before (${Object.keys(STORAGE_CLASS_RANKS).join(' < ')})`
+      );
+    }
+    tiers.push({ storageClass: storageClass as S3StorageClass, afterDays });
+  }
+  return tiers;
+}
+
+export function describeTieringPolicy(tiers: StorageTier[]): string {
+  return `moving to ${tiers
+    .map((tier) => `${tier.storageClass} after ${tier.afterDays} days`)
+    .join(', ')}`;
+}
+
+// The coldest tier a backup taken at `timestamp` has reached, if any
+export function targetTier(
+  tiers: StorageTier[],
+  timestamp: Date,
+  now: Date
+): S3StorageClass | undefined {
+  const ageDays = (now.getTime() - timestamp.getTime()) / DAY_MS;
+  return tiers.filter((tier) => ageDays >= tier.afterDays).at(-1)?.storageClass;
+}
+
+// Whether an object in `current` still has to move to `target`; objects are
+// never moved to a warmer class, whether or not the policy lists theirs
+export function needsTiering(current: string, target: S3StorageClass): boolean {
+  return storageClassRank(current) < storageClassRank(target);
+}
@@ -1,12 +1,28 @@
 import { RetentionManager } from '../RetentionManager';
 import { S3Client } from '../../s3/S3Client';
 import { BackupConfig } from '../../interfaces/BackupConfig';
-import { S3Object } from '../../interfaces/S3Client';
+import { StorageObject } from '../../interfaces/StorageBackend';
+import { BackupMetadata } from '../../types/BackupMetadata';
+import { FilesystemBackend } from '../../storage/FilesystemBackend';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock S3Client
 jest.mock('../../s3/S3Client');
 const MockedS3Client = S3Client as jest.MockedClass<typeof S3Client>;
 
+// A backup from today, so the stale-backup guard lets retention run
+function recentObject(): StorageObject {
+  const now = new Date();
+  const timestamp = now.toISOString().slice(0, 19).replace('T', '_');
+  return {
+    key: `backups/postgres-backup-${timestamp.replace(/:/g, '-')}.sql.gz`,
+    lastModified: now,
+    size: 4096,
+  };
+}
+
 describe('RetentionManager', () => {
   let retentionManager: RetentionManager;
   let mockS3Client: jest.Mocked<S3Client>;
@@ -26,8 +42,16 @@ describe('RetentionManager', () => {
 
     mockS3Client = {
       uploadFile: jest.fn(),
+      readObject: jest.fn().mockResolvedValue(null),
+      putObject: jest.fn().mockResolvedValue('"2"'),
       listObjects: jest.fn(),
-      deleteObject: jest.fn(),
+      iterateObjects: jest.fn(),
+      headObject: jest.fn().mockResolvedValue(null),
+      changeStorageClass: jest.fn().mockResolvedValue(undefined),
+      deleteObjects: jest.fn(async (keys: string[]) => ({
+        deleted: keys,
+        errors: [],
+      })),
       testConnection: jest.fn(),
     } as unknown as jest.Mocked<S3Client>;
 
@@ -54,7 +78,7 @@ describe('RetentionManager', () => {
     });
 
     it('should cleanup expired backups successfully', async () => {
-      const mockObjects: S3Object[] = [
+      const mockObjects: StorageObject[] = [
         {
           key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
           lastModified: new Date('2023-01-01'),
@@ -70,20 +94,22 @@ describe('RetentionManager', () => {
           lastModified: new Date('2023-01-01'),
           size: 512,
         },
+        recentObject(),
       ];
 
       mockS3Client.listObjects.mockResolvedValue(mockObjects);
-      mockS3Client.deleteObject.mockResolvedValue();
 
       const result = await retentionManager.cleanupExpiredBackups();
 
       expect(result).toBe(2); // Both backups from 2023 are expired in 2025
       expect(mockS3Client.listObjects).toHaveBeenCalledWith('backups');
-      expect(mockS3Client.deleteObject).toHaveBeenCalledWith(
-        'backups/postgres-backup-2023-01-01_12-00-00.sql.gz'
-      );
-      expect(mockS3Client.deleteObject).toHaveBeenCalledWith(
-        'backups/postgres-backup-2023-12-01_12-00-00.sql.gz'
+      expect(mockS3Client.deleteObjects).toHaveBeenCalledTimes(1);
+      expect(mockS3Client.deleteObjects).toHaveBeenCalledWith(
+        [
+          'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
+          'backups/postgres-backup-2023-12-01_12-00-00.sql.gz',
+        ],
+        { allVersions: false }
       );
     });
 
@@ -94,14 +120,14 @@ describe('RetentionManager', () => {
 
       expect(result).toBe(0);
       expect(mockS3Client.listObjects).toHaveBeenCalledWith('backups');
-      expect(mockS3Client.deleteObject).not.toHaveBeenCalled();
+      expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
     });
 
     it('should continue cleanup even if individual deletions fail', async () => {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - 30);
 
-      const mockObjects: S3Object[] = [
+      const mockObjects: StorageObject[] = [
         {
           key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
           lastModified: new Date('2023-01-01'),
@@ -112,17 +138,23 @@ describe('RetentionManager', () => {
           lastModified: new Date('2023-01-02'),
           size: 2048,
         },
+        recentObject(),
       ];
 
       mockS3Client.listObjects.mockResolvedValue(mockObjects);
-      mockS3Client.deleteObject
-        .mockRejectedValueOnce(new Error('Delete failed'))
-        .mockResolvedValueOnce();
+      mockS3Client.deleteObjects.mockResolvedValueOnce({
+        deleted: ['backups/postgres-backup-2023-01-02_12-00-00.sql.gz'],
+        errors: [
+          {
+            key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
+            error: 'AccessDenied: Access Denied',
+          },
+        ],
+      });
 
       const result = await retentionManager.cleanupExpiredBackups();
 
       expect(result).toBe(1);
-      expect(mockS3Client.deleteObject).toHaveBeenCalledTimes(2);
     });
 
     it('should handle list objects error', async () => {
@@ -145,11 +177,12 @@ describe('RetentionManager', () => {
         expiredBackups: 0,
         totalSize: 0,
         expiredSize: 0,
+        decisions: [],
       });
     });
 
     it('should calculate stats correctly with retention period', async () => {
-      const mockObjects: S3Object[] = [
+      const mockObjects: StorageObject[] = [
         {
           key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
           lastModified: new Date('2023-01-01'),
@@ -166,16 +199,38 @@ describe('RetentionManager', () => {
           size: 512,
         },
       ];
+      const recent = recentObject();
 
-      mockS3Client.listObjects.mockResolvedValue(mockObjects);
+      mockS3Client.listObjects.mockResolvedValue([...mockObjects, recent]);
 
       const stats = await retentionManager.getBackupStats();
 
       expect(stats).toEqual({
-        totalBackups: 2,
+        totalBackups: 3,
         expiredBackups: 2, // Both backups from 2023 are expired in 2025
-        totalSize: 3072, // 1024 + 2048
-        expiredSize: 3072, // Both backups are expired
+        totalSize: 7168, // 1024 + 2048 + 4096
+        expiredSize: 3072, // Both backups from 2023 are expired
+        decisions: [
+          {
+            backup: expect.objectContaining({
+              s3Key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
+            }),
+            keep: false,
+            reasons: ['older than 30 days'],
+          },
+          {
+            backup: expect.objectContaining({
+              s3Key: 'backups/postgres-backup-2023-12-01_12-00-00.sql.gz',
+            }),
+            keep: false,
+            reasons: ['older than 30 days'],
+          },
+          {
+            backup: expect.objectContaining({ s3Key: recent.key }),
+            keep: true,
+            reasons: ['within 30 days'],
+          },
+        ],
       });
     });
 
@@ -186,7 +241,7 @@ describe('RetentionManager', () => {
         configWithoutRetention
       );
 
-      const mockObjects: S3Object[] = [
+      const mockObjects: StorageObject[] = [
         {
           key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
           lastModified: new Date('2023-01-01'),
@@ -203,6 +258,15 @@ describe('RetentionManager', () => {
         expiredBackups: 0,
         totalSize: 1024,
         expiredSize: 0,
+        decisions: [
+          {
+            backup: expect.objectContaining({
+              s3Key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
+            }),
+            keep: true,
+            reasons: ['no retention policy'],
+          },
+        ],
       });
     });
 
@@ -230,7 +294,7 @@ describe('RetentionManager', () => {
     });
 
     it('should return expired backups list', async () => {
-      const mockObjects: S3Object[] = [
+      const mockObjects: StorageObject[] = [
         {
           key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
           lastModified: new Date('2023-01-01'),
@@ -241,6 +305,7 @@ describe('RetentionManager', () => {
           lastModified: new Date('2023-12-01'),
           size: 2048,
         },
+        recentObject(),
       ];
 
       mockS3Client.listObjects.mockResolvedValue(mockObjects);
@@ -248,10 +313,10 @@ describe('RetentionManager', () => {
       const result = await retentionManager.listExpiredBackups();
 
       expect(result).toHaveLength(2); // Both backups from 2023 are expired in 2025
-      expect(result[0]?.key).toBe(
+      expect(result[0]?.backup.s3Key).toBe(
         'backups/postgres-backup-2023-01-01_12-00-00.sql.gz'
       );
-      expect(result[1]?.key).toBe(
+      expect(result[1]?.backup.s3Key).toBe(
         'backups/postgres-backup-2023-12-01_12-00-00.sql.gz'
       );
     });
@@ -297,78 +362,658 @@ describe('RetentionManager', () => {
     });
   });
 
-  describe('filterExpiredBackups', () => {
-    it('should filter backups correctly', () => {
-      const cutoffDate = new Date('2023-06-01');
+  describe('with a catalog', () => {
+    function entry(
+      s3Key: string,
+      timestamp: string,
+      overrides: Partial<BackupMetadata> = {}
+    ) {
+      return {
+        fileName: s3Key.split('/').pop(),
+        timestamp,
+        databaseName: 'testdb',
+        fileSize: 1024,
+        s3Key,
+        kind: 'dump',
+        format: 'plain',
+        compression: 'gzip',
+        prefix: false,
+        status: 'completed',
+        ...overrides,
+      };
+    }
+
+    function useCatalog(backups: object[]) {
+      mockS3Client.readObject.mockResolvedValue({
+        etag: '"1"',
+        body: JSON.stringify({ version: 1, updatedAt: '', backups }),
+      });
+    }
+
+    function writtenKeys(): string[] {
+      const body = mockS3Client.putObject.mock.calls.find(
+        ([key]) => key === 'backups/catalog.json'
+      )?.[1] as string;
+      return JSON.parse(body).backups.map(
+        (backup: BackupMetadata) => backup.s3Key
+      );
+    }
+
+    it('expires backups of any format by their recorded timestamp', async () => {
+      useCatalog([
+        entry('backups/a.dump', '2023-01-01T12:00:00.000Z', {
+          format: 'custom',
+          compression: 'none',
+        }),
+        entry('backups/b.sql.zst', '2023-01-02T12:00:00.000Z', {
+          compression: 'zstd',
+        }),
+        entry('backups/c.sql.gz', new Date().toISOString()),
+      ]);
 
-      const objects: S3Object[] = [
-        {
-          key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
-          lastModified: new Date('2023-01-01'),
-          size: 1024,
-        },
-        {
-          key: 'backups/postgres-backup-2023-12-01_12-00-00.sql.gz',
-          lastModified: new Date('2023-12-01'),
-          size: 2048,
-        },
-        {
-          key: 'backups/other-file.txt',
-          lastModified: new Date('2023-01-01'),
+      const result = await retentionManager.cleanupExpiredBackups();
+
+      expect(result).toBe(2);
+      expect(mockS3Client.listObjects).not.toHaveBeenCalled();
+      expect(mockS3Client.deleteObjects).toHaveBeenCalledWith(
+        ['backups/a.dump', 'backups/b.sql.zst'],
+        { allVersions: false }
+      );
+      expect(mockS3Client.putObject).toHaveBeenCalledTimes(2);
+      expect(mockS3Client.putObject).toHaveBeenCalledWith(
+        'backups/catalog.json',
+        expect.any(String),
+        'application/json',
+        { ifMatch: '"1"' }
+      );
+      expect(writtenKeys()).toEqual(['backups/c.sql.gz']);
+    });
+
+    it('should delete every object of a directory dump prefix', async () => {
+      useCatalog([
+        entry('backups/a.dir', '2023-01-03T12:00:00.000Z', {
+          format: 'directory',
+          compression: 'none',
+          prefix: true,
+        }),
+        entry('backups/b.sql.gz', new Date().toISOString()),
+      ]);
+      mockS3Client.iterateObjects.mockImplementation(async function* () {
+        yield {
+          key: 'backups/a.dir/toc.dat',
+          lastModified: new Date('2023-01-03'),
+          size: 64,
+        };
+        yield {
+          key: 'backups/a.dir/3456.dat.gz',
+          lastModified: new Date('2023-01-03'),
           size: 512,
-        },
-        {
-          key: 'backups/postgres-backup-2023-05-01_12-00-00.sql.gz',
-          lastModified: new Date('2023-05-01'),
-          size: 1536,
-        },
-      ];
+        };
+      });
+
+      const result = await retentionManager.cleanupExpiredBackups();
 
-      // Access private method through any
-      const result = (retentionManager as any).filterExpiredBackups(
-        objects,
-        cutoffDate
+      expect(result).toBe(1);
+      expect(mockS3Client.iterateObjects).toHaveBeenCalledWith(
+        'backups/a.dir/'
+      );
+      expect(mockS3Client.deleteObjects).toHaveBeenCalledWith(
+        ['backups/a.dir/toc.dat', 'backups/a.dir/3456.dat.gz'],
+        { allVersions: false }
       );
+    });
 
-      expect(result).toHaveLength(2);
-      expect(result[0]?.key).toBe(
-        'backups/postgres-backup-2023-01-01_12-00-00.sql.gz'
+    it('should keep a directory dump in the catalog until all of it is deleted', async () => {
+      useCatalog([
+        entry('backups/a.dir', '2023-01-03T12:00:00.000Z', {
+          format: 'directory',
+          compression: 'none',
+          prefix: true,
+        }),
+        entry('backups/b.sql.gz', new Date().toISOString()),
+      ]);
+      mockS3Client.iterateObjects.mockImplementation(async function* () {
+        for (const name of ['toc.dat', '3456.dat.gz', '3457.dat.gz']) {
+          yield {
+            key: `backups/a.dir/${name}`,
+            lastModified: new Date('2023-01-03'),
+            size: 64,
+          };
+        }
+      });
+      mockS3Client.deleteObjects.mockResolvedValueOnce({
+        deleted: ['backups/a.dir/toc.dat', 'backups/a.dir/3457.dat.gz'],
+        errors: [
+          { key: 'backups/a.dir/3456.dat.gz', error: 'InternalError: retry' },
+        ],
+      });
+
+      const report = await retentionManager.runRetention({ dryRun: false });
+
+      expect(report.deleted).toBe(0);
+      expect(report.entries[0]?.error).toBe(
+        '1 of 3 objects not deleted, first: InternalError: retry'
       );
-      expect(result[1]?.key).toBe(
-        'backups/postgres-backup-2023-05-01_12-00-00.sql.gz'
+      expect(mockS3Client.putObject).not.toHaveBeenCalledWith(
+        'backups/catalog.json',
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
       );
     });
 
-    it('should only match backup naming pattern', () => {
-      const cutoffDate = new Date('2023-06-01');
+    it('should drop failed runs from the catalog without deleting', async () => {
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z', {
+          status: 'failed',
+          fileSize: 0,
+        }),
+      ]);
+
+      const result = await retentionManager.cleanupExpiredBackups();
+
+      expect(result).toBe(1);
+      expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
+      expect(writtenKeys()).toEqual([]);
+    });
+
+    it('should expire globals together with the dumps of their run', async () => {
+      useCatalog([
+        entry('backups/postgres-globals-1.sql.gz', '2023-01-01T12:00:00.000Z', {
+          kind: 'globals',
+          databaseName: '',
+        }),
+        entry(
+          'backups/tenant_a/postgres-backup-1.sql.gz',
+          '2023-01-01T12:00:00.000Z'
+        ),
+        entry('backups/postgres-globals-2.sql.gz', new Date().toISOString(), {
+          kind: 'globals',
+          databaseName: '',
+        }),
+        entry(
+          'backups/tenant_a/postgres-backup-2.sql.gz',
+          new Date().toISOString()
+        ),
+      ]);
+
+      const expired = await retentionManager.listExpiredBackups();
+
+      expect(expired.map((decision) => decision.backup.s3Key)).toEqual([
+        'backups/postgres-globals-1.sql.gz',
+        'backups/tenant_a/postgres-backup-1.sql.gz',
+      ]);
+    });
+
+    it('should delete backups not kept by any GFS rule', async () => {
+      const { retentionDays, ...gfsConfig } = mockConfig;
+      retentionManager = new RetentionManager(mockS3Client, {
+        ...gfsConfig,
+        retentionDaily: 2,
+        retentionMonthly: 1,
+      });
+      const day = 24 * 60 * 60 * 1000;
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * day).toISOString();
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', daysAgo(2)),
+        entry('backups/c.sql.gz', daysAgo(1)),
+        entry('backups/d.sql.gz', daysAgo(0)),
+      ]);
+
+      const expired = await retentionManager.listExpiredBackups();
+      const result = await retentionManager.cleanupExpiredBackups();
 
-      const objects: S3Object[] = [
+      expect(expired).toEqual([
         {
-          key: 'backups/not-a-backup.sql.gz',
-          lastModified: new Date('2023-01-01'),
-          size: 1024,
+          backup: expect.objectContaining({ s3Key: 'backups/a.sql.gz' }),
+          keep: false,
+          reasons: ['not selected by the daily, monthly rules'],
         },
         {
-          key: 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz',
-          lastModified: new Date('2023-01-01'),
-          size: 2048,
+          backup: expect.objectContaining({ s3Key: 'backups/b.sql.gz' }),
+          keep: false,
+          reasons: ['not selected by the daily, monthly rules'],
         },
+      ]);
+      expect(result).toBe(2);
+      expect(writtenKeys()).toEqual(['backups/c.sql.gz', 'backups/d.sql.gz']);
+    });
+
+    it('should refuse to delete anything when the newest backup is stale', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z'),
+        entry('backups/c.sql.gz', new Date().toISOString(), {
+          status: 'failed',
+          fileSize: 0,
+        }),
+      ]);
+
+      const result = await retentionManager.cleanupExpiredBackups();
+      const expired = await retentionManager.listExpiredBackups();
+
+      expect(result).toBe(0);
+      expect(expired).toEqual([]);
+      expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
+      // Only the audit report is written; the catalog is left alone
+      expect(mockS3Client.putObject).toHaveBeenCalledTimes(1);
+      expect(mockS3Client.putObject).toHaveBeenCalledWith(
+        expect.stringMatching(/^backups\/retention-reports\/.*\.json$/),
+        expect.stringContaining('"halted"'),
+        'application/json'
+      );
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^RETENTION HALTED: newest backup backups\/b\.sql\.gz from 2023-01-02T12:00:00\.000Z is older than the 30 day cutoff/
+        )
+      );
+      consoleError.mockRestore();
+    });
+
+    it('should keep the newest backups of each database up to the minimum', async () => {
+      retentionManager = new RetentionManager(mockS3Client, {
+        ...mockConfig,
+        retentionMinBackups: 2,
+      });
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z'),
+        entry('backups/c.sql.gz', '2023-01-03T12:00:00.000Z', {
+          databaseName: 'other',
+        }),
+        entry('backups/d.sql.gz', new Date().toISOString()),
+      ]);
+
+      const expired = await retentionManager.listExpiredBackups();
+      const stats = await retentionManager.getBackupStats();
+
+      expect(expired.map((decision) => decision.backup.s3Key)).toEqual([
+        'backups/a.sql.gz',
+      ]);
+      expect(stats.decisions.map((decision) => decision.reasons)).toEqual([
+        ['older than 30 days'],
+        ['minimum of 2 backups'],
+        ['minimum of 2 backups'],
+        ['within 30 days'],
+      ]);
+    });
+
+    it('should keep only the last N backups in keep-last mode', async () => {
+      const { retentionDays, ...keepLastConfig } = mockConfig;
+      retentionManager = new RetentionManager(mockS3Client, {
+        ...keepLastConfig,
+        retentionKeepLast: 2,
+      });
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z'),
+        entry('backups/c.sql.gz', '2023-01-03T12:00:00.000Z'),
+      ]);
+
+      const expired = await retentionManager.listExpiredBackups();
+      const result = await retentionManager.cleanupExpiredBackups();
+
+      expect(expired).toEqual([
         {
-          key: 'backups/backup-2023-01-01.sql.gz',
-          lastModified: new Date('2023-01-01'),
-          size: 1536,
+          backup: expect.objectContaining({ s3Key: 'backups/a.sql.gz' }),
+          keep: false,
+          reasons: ['not among the last 2'],
         },
-      ];
+      ]);
+      expect(result).toBe(1);
+      expect(writtenKeys()).toEqual(['backups/b.sql.gz', 'backups/c.sql.gz']);
+    });
+
+    it('should only report what a dry run would delete', async () => {
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', new Date().toISOString(), {
+          fileSize: 2048,
+        }),
+      ]);
+
+      const report = await retentionManager.runRetention({ dryRun: true });
+
+      expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
+      expect(mockS3Client.putObject).not.toHaveBeenCalled();
+      expect(report).toMatchObject({
+        dryRun: true,
+        deleted: 0,
+        expired: 1,
+        expiredSize: 1024,
+        kept: 1,
+        keptSize: 2048,
+      });
+      expect(report.entries).toEqual([
+        {
+          key: 'backups/a.sql.gz',
+          action: 'delete',
+          reason: 'older than 30 days',
+          databaseName: 'testdb',
+          timestamp: '2023-01-01T12:00:00.000Z',
+          ageDays: expect.any(Number),
+          size: 1024,
+        },
+        expect.objectContaining({
+          key: 'backups/b.sql.gz',
+          action: 'keep',
+          reason: 'within 30 days',
+          ageDays: 0,
+        }),
+      ]);
+    });
+
+    it('should not delete during scheduled runs in dry-run mode', async () => {
+      const consoleLog = jest.spyOn(console, 'log').mockImplementation();
+      retentionManager = new RetentionManager(mockS3Client, {
+        ...mockConfig,
+        retentionDryRun: true,
+      });
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', new Date().toISOString()),
+      ]);
 
-      const result = (retentionManager as any).filterExpiredBackups(
-        objects,
-        cutoffDate
+      const result = await retentionManager.cleanupExpiredBackups();
+
+      expect(result).toBe(0);
+      expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
+      expect(consoleLog).toHaveBeenCalledWith(
+        expect.stringMatching(/^ACTION\s+KEY/)
       );
+      consoleLog.mockRestore();
+    });
 
-      expect(result).toHaveLength(1);
-      expect(result[0]?.key).toBe(
-        'backups/postgres-backup-2023-01-01_12-00-00.sql.gz'
+    it('should write an audit report with per-key errors', async () => {
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z'),
+        entry('backups/c.sql.gz', new Date().toISOString()),
+      ]);
+      mockS3Client.deleteObjects.mockResolvedValueOnce({
+        deleted: ['backups/b.sql.gz'],
+        errors: [
+          { key: 'backups/a.sql.gz', error: 'AccessDenied: Access Denied' },
+        ],
+      });
+
+      const report = await retentionManager.runRetention({ dryRun: false });
+
+      const audit = mockS3Client.putObject.mock.calls.find(([key]) =>
+        key.startsWith('backups/retention-reports/')
+      );
+      expect(audit?.[0]).toMatch(
+        /^backups\/retention-reports\/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}\.json$/
       );
+      expect(JSON.parse(audit?.[1] as string)).toEqual(
+        JSON.parse(JSON.stringify(report))
+      );
+      expect(report).toMatchObject({ dryRun: false, deleted: 1, expired: 2 });
+      expect(report.entries[0]).toMatchObject({
+        key: 'backups/a.sql.gz',
+        action: 'delete',
+        error: 'AccessDenied: Access Denied',
+      });
+      expect(report.deleteErrors).toEqual([
+        { key: 'backups/a.sql.gz', error: 'AccessDenied: Access Denied' },
+      ]);
+      expect(writtenKeys()).toEqual(['backups/a.sql.gz', 'backups/c.sql.gz']);
+    });
+
+    it('should skip expired backups that are still locked and delete every version of the rest', async () => {
+      retentionManager = new RetentionManager(mockS3Client, {
+        ...mockConfig,
+        s3ObjectLockMode: 'COMPLIANCE',
+      });
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z'),
+        entry('backups/c.sql.gz', '2023-01-03T12:00:00.000Z'),
+        entry('backups/d.sql.gz', new Date().toISOString()),
+      ]);
+      mockS3Client.headObject.mockImplementation(async (key) => ({
+        key,
+        lastModified: new Date('2023-01-01'),
+        size: 1024,
+        etag: '"1"',
+        metadata: {},
+        ...(key === 'backups/a.sql.gz'
+          ? { lockedUntil: new Date('2099-01-01T00:00:00Z') }
+          : {}),
+        ...(key === 'backups/b.sql.gz' ? { legalHold: true } : {}),
+        ...(key === 'backups/c.sql.gz'
+          ? { lockedUntil: new Date('2023-02-01T00:00:00Z') }
+          : {}),
+      }));
+
+      const report = await retentionManager.runRetention({ dryRun: false });
+
+      expect(mockS3Client.deleteObjects).toHaveBeenCalledWith(
+        ['backups/c.sql.gz'],
+        { allVersions: true }
+      );
+      expect(report).toMatchObject({ deleted: 1, expired: 3 });
+      expect(report.entries[0]).toMatchObject({
+        key: 'backups/a.sql.gz',
+        locked: 'locked until 2099-01-01T00:00:00.000Z',
+      });
+      expect(report.entries[1]).toMatchObject({
+        key: 'backups/b.sql.gz',
+        locked: 'under legal hold',
+      });
+      expect(writtenKeys()).toEqual([
+        'backups/a.sql.gz',
+        'backups/b.sql.gz',
+        'backups/d.sql.gz',
+      ]);
+    });
+
+    it('should not check locks without Object Lock configured', async () => {
+      useCatalog([entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z')]);
+
+      await retentionManager.runRetention({ dryRun: false });
+
+      expect(mockS3Client.headObject).not.toHaveBeenCalled();
+    });
+
+    describe('with a tiering policy', () => {
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+      beforeEach(() => {
+        retentionManager = new RetentionManager(mockS3Client, {
+          ...mockConfig,
+          retentionDays: 365,
+          tiering: [
+            { storageClass: 'STANDARD_IA', afterDays: 30 },
+            { storageClass: 'GLACIER_IR', afterDays: 90 },
+          ],
+        });
+        useCatalog([
+          entry('backups/a.sql.gz', daysAgo(400)),
+          entry('backups/b.sql.gz', daysAgo(200), { fileSize: 4096 }),
+          entry('backups/c.sql.gz', daysAgo(120)),
+          entry('backups/d.sql.gz', daysAgo(60)),
+          entry('backups/e.sql.gz', daysAgo(0)),
+        ]);
+        const storageClasses: Record<string, string> = {
+          'backups/b.sql.gz': 'STANDARD_IA',
+          'backups/c.sql.gz': 'GLACIER_IR',
+        };
+        mockS3Client.headObject.mockImplementation(async (key) => ({
+          key,
+          lastModified: new Date(),
+          size: key === 'backups/b.sql.gz' ? 4096 : 1024,
+          etag: '"1"',
+          metadata: {},
+          ...(storageClasses[key] ? { storageClass: storageClasses[key] } : {}),
+        }));
+      });
+
+      it('should move kept backups into the tier their age reached', async () => {
+        const report = await retentionManager.runRetention({ dryRun: false });
+
+        // a expired, c is already in GLACIER_IR and e is too young
+        expect(mockS3Client.changeStorageClass.mock.calls).toEqual([
+          ['backups/b.sql.gz', 'GLACIER_IR'],
+          ['backups/d.sql.gz', 'STANDARD_IA'],
+        ]);
+        expect(mockS3Client.deleteObjects).toHaveBeenCalledWith(
+          ['backups/a.sql.gz'],
+          { allVersions: false }
+        );
+        expect(report.policy).toBe(
+          'keeping everything from the last 365 days, at least 1 per database, moving to STANDARD_IA after 30 days, GLACIER_IR after 90 days'
+        );
+        expect(report.tiered).toEqual([
+          { storageClass: 'GLACIER_IR', backups: 1, bytes: 4096 },
+          { storageClass: 'STANDARD_IA', backups: 1, bytes: 1024 },
+        ]);
+        expect(report.entries[1]).toMatchObject({
+          key: 'backups/b.sql.gz',
+          action: 'keep',
+          tier: 'GLACIER_IR',
+        });
+        expect(
+          mockS3Client.putObject.mock.calls.some(([key]) =>
+            key.startsWith('backups/retention-reports/')
+          )
+        ).toBe(true);
+      });
+
+      it('should not move backups that are still locked', async () => {
+        const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+        const head = mockS3Client.headObject.getMockImplementation()!;
+        mockS3Client.headObject.mockImplementation(async (key) => ({
+          ...(await head(key))!,
+          ...(key === 'backups/d.sql.gz'
+            ? { lockedUntil: new Date('2099-01-01T00:00:00Z') }
+            : {}),
+        }));
+
+        const report = await retentionManager.runRetention({ dryRun: false });
+
+        expect(mockS3Client.changeStorageClass.mock.calls).toEqual([
+          ['backups/b.sql.gz', 'GLACIER_IR'],
+        ]);
+        expect(report.tiered).toEqual([
+          { storageClass: 'GLACIER_IR', backups: 1, bytes: 4096 },
+        ]);
+        expect(consoleWarn).toHaveBeenCalledWith(
+          'Not moving backup backups/d.sql.gz to STANDARD_IA: locked until 2099-01-01T00:00:00.000Z'
+        );
+        consoleWarn.mockRestore();
+      });
+
+      it('should only report what a dry run would move', async () => {
+        const report = await retentionManager.runRetention({ dryRun: true });
+
+        expect(mockS3Client.changeStorageClass).not.toHaveBeenCalled();
+        expect(report.tiered).toHaveLength(2);
+      });
+
+      it('should report a backup that could not be moved', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
+        mockS3Client.changeStorageClass.mockRejectedValueOnce(
+          new Error('S3 storage class change failed: AccessDenied')
+        );
+
+        const report = await retentionManager.runRetention({ dryRun: false });
+
+        expect(report.entries[1]).toMatchObject({
+          key: 'backups/b.sql.gz',
+          error: 'S3 storage class change failed: AccessDenied',
+        });
+        expect(report.entries[3]).toMatchObject({
+          key: 'backups/d.sql.gz',
+          tier: 'STANDARD_IA',
+        });
+        consoleError.mockRestore();
+      });
+
+      it('should move backups without a retention policy', async () => {
+        const { retentionDays, ...configWithoutRetention } = mockConfig;
+        retentionManager = new RetentionManager(mockS3Client, {
+          ...configWithoutRetention,
+          tiering: [{ storageClass: 'GLACIER_IR', afterDays: 90 }],
+        });
+
+        expect(await retentionManager.cleanupExpiredBackups()).toBe(0);
+        expect(mockS3Client.deleteObjects).not.toHaveBeenCalled();
+        expect(mockS3Client.changeStorageClass.mock.calls).toEqual([
+          ['backups/a.sql.gz', 'GLACIER_IR'],
+          ['backups/b.sql.gz', 'GLACIER_IR'],
+        ]);
+      });
+    });
+
+    it('should leave failed runs out of the stats', async () => {
+      useCatalog([
+        entry('backups/a.sql.gz', '2023-01-01T12:00:00.000Z'),
+        entry('backups/b.sql.gz', '2023-01-02T12:00:00.000Z', {
+          status: 'failed',
+          fileSize: 0,
+        }),
+        entry('backups/c.sql.gz', new Date().toISOString()),
+      ]);
+
+      const stats = await retentionManager.getBackupStats();
+
+      expect(stats).toEqual({
+        totalBackups: 2,
+        expiredBackups: 1,
+        totalSize: 2048,
+        expiredSize: 1024,
+        decisions: [
+          {
+            backup: expect.objectContaining({ s3Key: 'backups/a.sql.gz' }),
+            keep: false,
+            reasons: ['older than 30 days'],
+          },
+          {
+            backup: expect.objectContaining({ s3Key: 'backups/c.sql.gz' }),
+            keep: true,
+            reasons: ['within 30 days'],
+          },
+        ],
+      });
+    });
+  });
+
+  describe('on a filesystem backend', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should delete expired backup files from the directory', async () => {
+      const config: BackupConfig = {
+        ...mockConfig,
+        storageBackend: 'filesystem',
+        storagePath: root,
+      };
+      const storage = new FilesystemBackend(config);
+      const expired = 'backups/postgres-backup-2023-01-01_12-00-00.sql.gz';
+      const recent = recentObject().key;
+      await storage.putObject(expired, 'old', 'application/gzip');
+      await storage.putObject(recent, 'new', 'application/gzip');
+
+      const result = await new RetentionManager(
+        storage,
+        config
+      ).cleanupExpiredBackups();
+
+      expect(result).toBe(1);
+      expect(fs.existsSync(path.join(root, ...expired.split('/')))).toBe(false);
+      expect(fs.existsSync(path.join(root, ...recent.split('/')))).toBe(true);
     });
   });
 });
@@ -0,0 +1,156 @@
+import {
+  buildRetentionReport,
+  formatRetentionReport,
+} from '../RetentionReport';
+import { BackupMetadata } from '../../types/BackupMetadata';
+
+describe('RetentionReport', () => {
+  const now = new Date('2024-03-15T12:00:00Z');
+
+  function backup(s3Key: string, timestamp: string, fileSize: number) {
+    return {
+      fileName: s3Key,
+      timestamp: new Date(timestamp),
+      databaseName: 'app',
+      fileSize,
+      s3Key,
+      kind: 'dump',
+      format: 'plain',
+      compression: 'gzip',
+      prefix: false,
+      status: 'completed',
+    } as BackupMetadata;
+  }
+
+  const decisions = [
+    {
+      backup: backup('backups/a.sql.gz', '2024-01-01T00:00:00Z', 3 * 1048576),
+      keep: false,
+      reasons: ['older than 30 days'],
+    },
+    {
+      backup: backup('backups/b.sql.gz', '2024-03-14T00:00:00Z', 512),
+      keep: true,
+      reasons: ['within 30 days', 'daily 2024-03-14'],
+    },
+  ];
+
+  it('summarizes the decisions with age and size', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: false,
+      policy: 'keeping everything from the last 30 days',
+      now,
+      errors: new Map(),
+    });
+
+    expect(report).toEqual({
+      generatedAt: '2024-03-15T12:00:00.000Z',
+      dryRun: false,
+      policy: 'keeping everything from the last 30 days',
+      deleted: 1,
+      expired: 1,
+      expiredSize: 3 * 1048576,
+      kept: 1,
+      keptSize: 512,
+      entries: [
+        {
+          key: 'backups/a.sql.gz',
+          action: 'delete',
+          reason: 'older than 30 days',
+          databaseName: 'app',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          ageDays: 74.5,
+          size: 3 * 1048576,
+        },
+        {
+          key: 'backups/b.sql.gz',
+          action: 'keep',
+          reason: 'within 30 days; daily 2024-03-14',
+          databaseName: 'app',
+          timestamp: '2024-03-14T00:00:00.000Z',
+          ageDays: 1.5,
+          size: 512,
+        },
+      ],
+    });
+  });
+
+  it('prints a table', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: true,
+      policy: 'keeping everything from the last 30 days',
+      now,
+    });
+
+    expect(formatRetentionReport(report, 'table').split('\n')).toEqual([
+      'ACTION  KEY               AGE    SIZE     REASON',
+      'delete  backups/a.sql.gz  74.5d  3.0 MiB  older than 30 days',
+      'keep    backups/b.sql.gz  1.5d   512 B    within 30 days; daily 2024-03-14',
+      '',
+      'keeping everything from the last 30 days: would delete 1 backups (3.0 MiB), keeping 1 (512 B)',
+    ]);
+  });
+
+  it('marks failed deletions in the table', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: false,
+      policy: 'keeping everything from the last 30 days',
+      now,
+      errors: new Map([['backups/a.sql.gz', 'Access Denied']]),
+    });
+
+    expect(report.deleted).toBe(0);
+    expect(formatRetentionReport(report, 'table')).toContain(
+      'failed  backups/a.sql.gz  74.5d  3.0 MiB  older than 30 days (Access Denied)'
+    );
+  });
+
+  it('marks locked backups in the table', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: false,
+      policy: 'keeping everything from the last 30 days',
+      now,
+      locked: new Map([['backups/a.sql.gz', 'under legal hold']]),
+    });
+
+    expect(report.deleted).toBe(0);
+    expect(formatRetentionReport(report, 'table')).toContain(
+      'locked  backups/a.sql.gz  74.5d  3.0 MiB  older than 30 days (under legal hold)'
+    );
+  });
+
+  it('sums the bytes moved to each tier', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: true,
+      policy: 'keeping all, moving to STANDARD_IA after 1 days',
+      now,
+      moved: new Map([
+        ['backups/b.sql.gz', { storageClass: 'STANDARD_IA', bytes: 512 }],
+      ]),
+    });
+
+    expect(report.entries[1]?.tier).toBe('STANDARD_IA');
+    expect(report.tiered).toEqual([
+      { storageClass: 'STANDARD_IA', backups: 1, bytes: 512 },
+    ]);
+    const table = formatRetentionReport(report, 'table').split('\n');
+    expect(table).toContain(
+      'move    backups/b.sql.gz  1.5d   512 B    within 30 days; daily 2024-03-14 (to STANDARD_IA)'
+    );
+    expect(table.at(-1)).toBe(
+      'Tiering: would move 1 backups (512 B) to STANDARD_IA'
+    );
+  });
+
+  it('prints JSON', () => {
+    const report = buildRetentionReport(decisions, {
+      dryRun: true,
+      policy: 'keeping all',
+      now,
+    });
+
+    expect(JSON.parse(formatRetentionReport(report, 'json'))).toEqual(
+      JSON.parse(JSON.stringify(report))
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { needsTiering, parseTieringPolicy, targetTier } from '../TieringPolicy';
+
+describe('TieringPolicy', () => {
+  const tiers = parseTieringPolicy('STANDARD_IA:30, GLACIER_IR:90');
+
+  it('parses tiers in order of age', () => {
+    expect(tiers).toEqual([
+      { storageClass: 'STANDARD_IA', afterDays: 30 },
+      { storageClass: 'GLACIER_IR', afterDays: 90 },
+    ]);
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseTieringPolicy('STANDARD_IA')).toThrow(
+      'BACKUP_TIERING entries must be STORAGE_CLASS:days with at least 1 day: STANDARD_IA'
+    );
+    expect(() => parseTieringPolicy('STANDARD_IA:0')).toThrow(
+      'with at least 1 day'
+    );
+    expect(() => parseTieringPolicy('DEEP_ARCHIVE:180', 'X_TIERING')).toThrow(
+      'X_TIERING storage classes must be one of: STANDARD_IA, ONEZONE_IA, INTELLIGENT_TIERING, GLACIER_IR'
+    );
+  });
+
+  it('requires increasing ages and distinct classes', () => {
+    expect(() => parseTieringPolicy('GLACIER_IR:90,STANDARD_IA:30')).toThrow(
+      'BACKUP_TIERING must list each storage class once, by increasing age'
+    );
+    expect(() => parseTieringPolicy('STANDARD_IA:30,STANDARD_IA:60')).toThrow(
+      'by increasing age'
+    );
+    expect(() => parseTieringPolicy('GLACIER_IR:30,STANDARD_IA:90')).toThrow(
+      'each colder than the one before (STANDARD < INTELLIGENT_TIERING < STANDARD_IA < ONEZONE_IA < GLACIER_IR)'
+    );
+  });
+
+  it('picks the coldest tier a backup has reached', () => {
+    const now = new Date('2024-06-30T00:00:00Z');
+
+    expect(targetTier(tiers, new Date('2024-06-01T00:00:00Z'), now)).toBe(
+      undefined
+    );
+    expect(targetTier(tiers, new Date('2024-05-31T00:00:00Z'), now)).toBe(
+      'STANDARD_IA'
+    );
+    expect(targetTier(tiers, new Date('2024-01-01T00:00:00Z'), now)).toBe(
+      'GLACIER_IR'
+    );
+  });
+
+  it('never moves objects back to a warmer tier', () => {
+    expect(needsTiering('STANDARD', 'STANDARD_IA')).toBe(true);
+    expect(needsTiering('STANDARD_IA', 'GLACIER_IR')).toBe(true);
+    expect(needsTiering('GLACIER_IR', 'GLACIER_IR')).toBe(false);
+    expect(needsTiering('GLACIER_IR', 'STANDARD_IA')).toBe(false);
+  });
+
+  it('compares classes the policy does not list by temperature', () => {
+    // e.g. S3_STORAGE_CLASS=GLACIER_IR with BACKUP_TIERING=STANDARD_IA:30
+    expect(needsTiering('GLACIER_IR', 'STANDARD_IA')).toBe(false);
+    expect(needsTiering('INTELLIGENT_TIERING', 'STANDARD_IA')).toBe(true);
+    expect(needsTiering('DEEP_ARCHIVE', 'GLACIER_IR')).toBe(false);
+  });
+});
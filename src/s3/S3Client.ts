@@ -3,25 +3,86 @@ import {
   PutObjectCommand,
   ListObjectsV2Command,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  GetObjectLockConfigurationCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  UploadPartCopyCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  ListObjectVersionsCommand,
+  CompletedPart,
 } from '@aws-sdk/client-s3';
-import { BackupConfig } from '../interfaces/BackupConfig';
-import { S3Object } from '../interfaces/S3Client';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { BackupConfig, S3StorageClass } from '../interfaces/BackupConfig';
+import {
+  StorageBackend,
+  StorageDeleteOptions,
+  StorageDeleteResult,
+  StorageDocument,
+  StorageDownload,
+  StorageObject,
+  StorageObjectHead,
+  StorageWriteConditions,
+} from '../interfaces/StorageBackend';
+import { PreconditionFailedError } from '../storage/PreconditionFailedError';
+import { UploadVerificationError } from '../storage/UploadVerificationError';
+import { mapWithConcurrency } from '../utils/Concurrency';
+import {
+  MAX_COPY_OBJECT_BYTES,
+  encodeObjectTags,
+  objectLockRetainUntil,
+  uploadRetryDelay,
+  uploadRetryPolicy,
+} from './StorageOptions';
+import { resolveS3Credentials } from './S3Credentials';
 import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { pipeline, Readable, Transform, TransformCallback } from 'stream';
+
+const MB = 1024 * 1024;
+const DEFAULT_PART_SIZE_MB = 16;
+const DEFAULT_MULTIPART_CONCURRENCY = 4;
+const MAX_DELETE_BATCH = 1000; // DeleteObjects limit
+const MAX_PARTS = 10000; // multipart upload limit
+const COPY_PART_SIZE_MB = 512; // server-side, so larger than upload parts
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Set anew on every upload; a resumed multipart upload keeps the value of
+// the attempt that created it
+const UPLOAD_TIMESTAMP_METADATA_KEY = 'upload-timestamp';
+
+// What an uploaded object must look like when read back
+interface ExpectedUpload {
+  size: number;
+  etag?: string; // unknown for streamed uploads
+  metadata: Record<string, string>;
+}
 
-export class S3Client {
+export class S3Client implements StorageBackend {
   private s3Client: AWSS3Client;
   private config: BackupConfig;
+  private bucket: string;
+  // Cleared once the endpoint rejects If-Match / If-None-Match
+  private conditionalWrites = true;
 
   constructor(config: BackupConfig) {
     this.config = config;
+    this.bucket = config.s3Bucket || '';
 
     // Initialize S3 client with configuration
+    const { credentials } = resolveS3Credentials(config);
     const clientConfig: any = {
-      region: 'us-east-1', // Default region, can be overridden
-      credentials: {
-        accessKeyId: config.s3AccessKey,
-        secretAccessKey: config.s3SecretKey,
-      },
+      region: config.s3Region || 'us-east-1',
+      ...(credentials ? { credentials } : {}),
     };
 
     // Add endpoint and forcePathStyle only if s3Url is provided
@@ -33,81 +94,936 @@ export class S3Client {
     this.s3Client = new AWSS3Client(clientConfig);
   }
 
-  public async uploadFile(filePath: string, key: string): Promise<string> {
+  public async uploadFile(
+    filePath: string,
+    key: string,
+    contentType: string = 'application/gzip',
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
     try {
       // Check if file exists
       if (!fs.existsSync(filePath)) {
         throw new Error(`File not found: ${filePath}`);
       }
 
-      // Read file as buffer
-      const fileBuffer = fs.readFileSync(filePath);
       const fileStats = fs.statSync(filePath);
 
       console.log(
         `Uploading file ${filePath} (${fileStats.size} bytes) to S3 key: ${key}`
       );
 
-      // Create upload command
-      const uploadCommand = new PutObjectCommand({
-        Bucket: this.config.s3Bucket,
-        Key: key,
-        Body: fileBuffer,
-        ContentType: 'application/gzip',
-        Metadata: {
-          'original-filename': filePath.split('/').pop() || 'unknown',
-          'upload-timestamp': new Date().toISOString(),
-          'file-size': fileStats.size.toString(),
+      const objectMetadata = {
+        'original-filename': filePath.split('/').pop() || 'unknown',
+        [UPLOAD_TIMESTAMP_METADATA_KEY]: new Date().toISOString(),
+        'file-size': fileStats.size.toString(),
+        ...metadata,
+      };
+
+      // A stored object that does not match the file, or an upload that
+      // failed with a transient error, is uploaded again to the same key as
+      // often as the upload retry policy allows; a multipart upload resumes
+      const retry = uploadRetryPolicy(this.config);
+      for (let attempt = 1; ; attempt++) {
+        let etag: string;
+        try {
+          etag =
+            fileStats.size > this.partSize()
+              ? await this.uploadFileMultipart(
+                  filePath,
+                  fileStats.size,
+                  key,
+                  contentType,
+                  objectMetadata
+                )
+              : await this.putFile(filePath, key, contentType, objectMetadata);
+        } catch (error) {
+          if (
+            !(error instanceof Error) ||
+            !this.isRetryableError(error) ||
+            attempt >= retry.attempts
+          ) {
+            throw error;
+          }
+          const delay = uploadRetryDelay(retry, attempt);
+          console.warn(
+            `Upload of ${key} failed (attempt ${attempt}/${retry.attempts}), uploading again in ${delay}ms: ${error.message}`
+          );
+          await this.sleep(delay);
+          continue;
+        }
+
+        const mismatch = await this.verifyUpload(key, {
+          size: fileStats.size,
+          etag,
+          metadata: objectMetadata,
+        });
+        if (!mismatch) {
+          break;
+        }
+        if (attempt >= retry.attempts) {
+          throw new UploadVerificationError(
+            `S3 upload failed: Uploaded object ${key} ${mismatch}`
+          );
+        }
+        const delay = uploadRetryDelay(retry, attempt);
+        console.warn(
+          `Uploaded object ${key} ${mismatch} (attempt ${attempt}/${retry.attempts}), uploading again in ${delay}ms`
+        );
+        await this.sleep(delay);
+      }
+
+      const s3Location = this.location(key);
+      console.log(`Successfully uploaded to: ${s3Location}`);
+
+      return s3Location;
+    } catch (error) {
+      console.error(`Failed to upload file ${filePath} to S3:`, error);
+      if (error instanceof UploadVerificationError) {
+        throw error;
+      }
+      throw new Error(
+        `S3 upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async uploadStream(
+    stream: Readable,
+    key: string,
+    contentType: string = 'application/gzip',
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
+    try {
+      const partSize = this.partSize();
+      const concurrency = this.concurrency();
+
+      console.log(
+        `Streaming upload to S3 key: ${key} (part size ${partSize / MB} MB, concurrency ${concurrency})`
+      );
+
+      const objectMetadata = {
+        'original-filename': key.split('/').pop() || 'unknown',
+        [UPLOAD_TIMESTAMP_METADATA_KEY]: new Date().toISOString(),
+        ...metadata,
+      };
+      const counter = new ByteCountStream();
+
+      // Memory use is bounded by partSize * queueSize regardless of dump size
+      const upload = new Upload({
+        client: this.s3Client,
+        params: {
+          Bucket: this.bucket,
+          Key: key,
+          Body: pipeline(stream, counter, () => undefined),
+          ContentType: contentType,
+          Metadata: objectMetadata,
+          ...this.backupWriteOptions(),
         },
+        partSize,
+        queueSize: concurrency,
+        leavePartsOnError: false,
       });
 
-      // Execute upload with retry logic
-      await this.executeWithRetry(async () => {
-        return await this.s3Client.send(uploadCommand);
+      await upload.done();
+
+      // The stream is consumed, so a mismatch cannot be retried here; the
+      // caller has to produce the stream again
+      const mismatch = await this.verifyUpload(key, {
+        size: counter.bytes,
+        metadata: objectMetadata,
       });
+      if (mismatch) {
+        throw new UploadVerificationError(
+          `S3 upload failed: Uploaded object ${key} ${mismatch}`
+        );
+      }
 
-      const s3Location = `s3://${this.config.s3Bucket}/${key}`;
+      const s3Location = this.location(key);
       console.log(`Successfully uploaded to: ${s3Location}`);
 
       return s3Location;
     } catch (error) {
-      console.error(`Failed to upload file ${filePath} to S3:`, error);
+      console.error(`Failed to stream upload to S3 key ${key}:`, error);
+      if (error instanceof UploadVerificationError) {
+        throw error;
+      }
       throw new Error(
         `S3 upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
-  public async listObjects(prefix: string): Promise<S3Object[]> {
-    try {
+  /**
+   * Uploads a file in parts, retrying each part on its own. A failed upload is
+   * left in place rather than aborted: uploading the same file to the same key
+   * again, as uploadFile does after a transient error, picks it up and only sends the parts S3 does not already hold with
+   * the same content. Leftovers are removed by abortStaleUploads().
+   */
+  private async uploadFileMultipart(
+    filePath: string,
+    size: number,
+    key: string,
+    contentType: string,
+    metadata: Record<string, string>
+  ): Promise<string> {
+    const partSize = this.partSize();
+    const partCount = Math.ceil(size / partSize);
+    const partRange = (partNumber: number) => {
+      const start = (partNumber - 1) * partSize;
+      return { start, length: Math.min(partSize, size - start) };
+    };
+
+    const completed = new Map<number, string>();
+    const digests = new Map<number, Buffer>(); // MD5 of each part's bytes
+    let uploadId = await this.findIncompleteUpload(key);
+    if (uploadId) {
+      for (const part of await this.listUploadedParts(key, uploadId)) {
+        if (part.partNumber > partCount) {
+          continue;
+        }
+        // Reuse a part only if it holds exactly the bytes of this file
+        const { start, length } = partRange(part.partNumber);
+        const md5 = createHash('md5')
+          .update(readFileRange(filePath, start, length))
+          .digest();
+        if (
+          part.size === length &&
+          part.etag.replace(/"/g, '') === md5.toString('hex')
+        ) {
+          completed.set(part.partNumber, part.etag);
+          digests.set(part.partNumber, md5);
+        }
+      }
       console.log(
-        `Listing objects in bucket ${this.config.s3Bucket} with prefix: ${prefix}`
+        `Resuming multipart upload of ${key}: ${completed.size} of ${partCount} parts already uploaded`
       );
+    } else {
+      const created = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new CreateMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: contentType,
+            Metadata: metadata,
+            ...this.backupWriteOptions(),
+          })
+        );
+      });
+      uploadId = created.UploadId!;
+    }
 
-      const listCommand = new ListObjectsV2Command({
-        Bucket: this.config.s3Bucket,
-        Prefix: prefix,
+    const pending = Array.from(
+      { length: partCount },
+      (_, index) => index + 1
+    ).filter((partNumber) => !completed.has(partNumber));
+    try {
+      await mapWithConcurrency(
+        pending,
+        this.concurrency(),
+        async (partNumber) => {
+          const { start, length } = partRange(partNumber);
+          const body = readFileRange(filePath, start, length);
+          const result = await this.executeWithRetry(async () => {
+            return await this.s3Client.send(
+              new UploadPartCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId,
+                PartNumber: partNumber,
+                Body: body,
+              })
+            );
+          });
+          completed.set(partNumber, result.ETag!);
+          digests.set(partNumber, createHash('md5').update(body).digest());
+        }
+      );
+    } catch (error) {
+      console.error(
+        `Multipart upload of ${key} stopped with ${completed.size} of ${partCount} parts uploaded; uploading the same file again resumes it`
+      );
+      throw error;
+    }
+
+    const parts: CompletedPart[] = [...completed.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, etag]) => ({ PartNumber: partNumber, ETag: etag }));
+    await this.executeWithRetry(async () => {
+      return await this.s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        })
+      );
+    });
+
+    // S3 gives a multipart object the MD5 of its part digests and the count
+    const combined = createHash('md5')
+      .update(
+        Buffer.concat(parts.map(({ PartNumber }) => digests.get(PartNumber!)!))
+      )
+      .digest('hex');
+    return `"${combined}-${partCount}"`;
+  }
+
+  // Returns the ETag S3 gives the object, the MD5 of its bytes
+  private async putFile(
+    filePath: string,
+    key: string,
+    contentType: string,
+    metadata: Record<string, string>
+  ): Promise<string> {
+    const body = fs.readFileSync(filePath);
+    const uploadCommand = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      Metadata: metadata,
+      ...this.backupWriteOptions(),
+    });
+
+    // Execute upload with retry logic
+    await this.executeWithRetry(async () => {
+      return await this.s3Client.send(uploadCommand);
+    });
+    return `"${createHash('md5').update(body).digest('hex')}"`;
+  }
+
+  /**
+   * Reads an uploaded backup back with HeadObject and describes how it
+   * differs from what was sent, or returns undefined when it matches. Some
+   * S3-compatible endpoints acknowledge writes they did not store intact.
+   */
+  private async verifyUpload(
+    key: string,
+    expected: ExpectedUpload
+  ): Promise<string | undefined> {
+    if (this.config.verifyUploads === false) {
+      return undefined;
+    }
+    let head: HeadObjectCommandOutput;
+    try {
+      head = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+        );
+      });
+    } catch (error: any) {
+      if (
+        error?.name === 'NotFound' ||
+        error?.$metadata?.httpStatusCode === 404
+      ) {
+        return 'is missing after the upload';
+      }
+      throw error;
+    }
+
+    if (head.ContentLength !== expected.size) {
+      return `holds ${head.ContentLength ?? 0} bytes instead of ${expected.size}`;
+    }
+    // The ETag of a KMS-encrypted object is not a digest of its bytes
+    if (
+      expected.etag &&
+      !head.ServerSideEncryption?.startsWith('aws:kms') &&
+      head.ETag !== expected.etag
+    ) {
+      return `has ETag ${head.ETag ?? 'none'} instead of ${expected.etag}`;
+    }
+    const stored = head.Metadata || {};
+    for (const [name, value] of Object.entries(expected.metadata)) {
+      // S3 returns metadata names in lower case
+      const actual = stored[name.toLowerCase()];
+      if (name !== UPLOAD_TIMESTAMP_METADATA_KEY && actual !== value) {
+        return `has metadata ${name}=${actual ?? '(missing)'} instead of ${value}`;
+      }
+    }
+    return undefined;
+  }
+
+  // The most recently started incomplete upload of exactly this key
+  private async findIncompleteUpload(key: string): Promise<string | undefined> {
+    const uploads = await this.listMultipartUploads(key);
+    return uploads
+      .filter((upload) => upload.key === key)
+      .sort((a, b) => b.initiated.getTime() - a.initiated.getTime())[0]
+      ?.uploadId;
+  }
+
+  private async listUploadedParts(
+    key: string,
+    uploadId: string
+  ): Promise<{ partNumber: number; etag: string; size: number }[]> {
+    const parts: { partNumber: number; etag: string; size: number }[] = [];
+    let marker: string | undefined;
+    do {
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new ListPartsCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            ...(marker ? { PartNumberMarker: marker } : {}),
+          })
+        );
       });
+      for (const part of result.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber!,
+          etag: part.ETag || '',
+          size: part.Size || 0,
+        });
+      }
+      marker = result.IsTruncated ? result.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  }
 
-      const result = await this.s3Client.send(listCommand);
+  private async listMultipartUploads(
+    prefix: string
+  ): Promise<{ key: string; uploadId: string; initiated: Date }[]> {
+    const uploads: { key: string; uploadId: string; initiated: Date }[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+    do {
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new ListMultipartUploadsCommand({
+            Bucket: this.bucket,
+            Prefix: prefix,
+            ...(keyMarker ? { KeyMarker: keyMarker } : {}),
+            ...(uploadIdMarker ? { UploadIdMarker: uploadIdMarker } : {}),
+          })
+        );
+      });
+      for (const upload of result.Uploads || []) {
+        uploads.push({
+          key: upload.Key!,
+          uploadId: upload.UploadId!,
+          initiated: upload.Initiated!,
+        });
+      }
+      keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+      uploadIdMarker = result.IsTruncated
+        ? result.NextUploadIdMarker
+        : undefined;
+    } while (keyMarker);
+    return uploads;
+  }
 
-      if (!result.Contents) {
-        console.log('No objects found with the specified prefix');
-        return [];
+  /**
+   * Aborts incomplete multipart uploads under the prefix that were started
+   * before the cutoff. Their parts are billed as storage until then. Returns
+   * how many uploads were aborted; one that cannot be aborted is skipped.
+   */
+  public async abortStaleUploads(
+    prefix: string,
+    olderThan: Date
+  ): Promise<number> {
+    let uploads;
+    try {
+      uploads = await this.listMultipartUploads(prefix);
+    } catch (error) {
+      console.error(`Failed to list multipart uploads in S3:`, error);
+      throw new Error(
+        `S3 list multipart uploads failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    let aborted = 0;
+    for (const upload of uploads) {
+      if (upload.initiated >= olderThan) {
+        continue;
+      }
+      try {
+        await this.s3Client.send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: upload.key,
+            UploadId: upload.uploadId,
+          })
+        );
+        aborted++;
+        console.log(
+          `Aborted incomplete upload of ${upload.key} started ${upload.initiated.toISOString()}`
+        );
+      } catch (error) {
+        console.warn(
+          `Failed to abort incomplete upload of ${upload.key}:`,
+          error
+        );
       }
+    }
+    return aborted;
+  }
 
-      const objects: S3Object[] = result.Contents.map((item) => ({
-        key: item.Key!,
-        lastModified: item.LastModified!,
-        size: item.Size || 0,
-      }));
+  public async listObjects(prefix: string): Promise<StorageObject[]> {
+    console.log(
+      `Listing objects in bucket ${this.bucket} with prefix: ${prefix}`
+    );
 
+    const objects: StorageObject[] = [];
+    for await (const object of this.iterateObjects(prefix)) {
+      objects.push(object);
+    }
+
+    if (objects.length === 0) {
+      console.log('No objects found with the specified prefix');
+    } else {
       console.log(`Found ${objects.length} objects with prefix: ${prefix}`);
-      return objects;
+    }
+    return objects;
+  }
+
+  // Streams every object under the prefix, one ListObjectsV2 page at a time
+  public async *iterateObjects(prefix: string): AsyncGenerator<StorageObject> {
+    let continuationToken: string | undefined;
+    do {
+      let result;
+      try {
+        result = await this.s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: prefix,
+            ...(continuationToken
+              ? { ContinuationToken: continuationToken }
+              : {}),
+          })
+        );
+      } catch (error) {
+        console.error(`Failed to list objects in S3:`, error);
+        throw new Error(
+          `S3 list objects failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      for (const item of result.Contents || []) {
+        yield {
+          key: item.Key!,
+          lastModified: item.LastModified!,
+          size: item.Size || 0,
+        };
+      }
+      continuationToken = result.IsTruncated
+        ? result.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
+  public async downloadStream(key: string): Promise<Readable> {
+    return (await this.downloadObject(key)).body;
+  }
+
+  public async downloadObject(key: string): Promise<StorageDownload> {
+    try {
+      console.log(`Downloading object from S3: ${key}`);
+
+      const getCommand = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(getCommand);
+      });
+
+      if (!result.Body) {
+        throw new Error(`Object has no body: ${key}`);
+      }
+
+      return {
+        body: result.Body as Readable,
+        metadata: result.Metadata || {},
+        ...(result.ContentType ? { contentType: result.ContentType } : {}),
+      };
+    } catch (error) {
+      console.error(`Failed to download object ${key} from S3:`, error);
+      throw new Error(
+        `S3 download failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Small documents such as the backup catalog; null when the key is absent
+  public async readObject(key: string): Promise<StorageDocument | null> {
+    try {
+      const getCommand = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(getCommand);
+      });
+
+      return {
+        body: (await result.Body?.transformToString()) || '',
+        etag: result.ETag || '',
+      };
+    } catch (error: any) {
+      if (
+        error?.name === 'NoSuchKey' ||
+        error?.$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      console.error(`Failed to read object ${key} from S3:`, error);
+      throw new Error(
+        `S3 read failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Writes a small document in one request; conditions make it compare-and-swap
+  public async putObject(
+    key: string,
+    body: string,
+    contentType: string,
+    conditions: StorageWriteConditions = {}
+  ): Promise<string> {
+    const conditional =
+      this.conditionalWrites &&
+      (conditions.ifMatch !== undefined ||
+        conditions.ifNoneMatch !== undefined);
+    try {
+      const putCommand = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...this.writeOptions(),
+        ...(conditional && conditions.ifMatch
+          ? { IfMatch: conditions.ifMatch }
+          : {}),
+        ...(conditional && conditions.ifNoneMatch
+          ? { IfNoneMatch: conditions.ifNoneMatch }
+          : {}),
+      });
+
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(putCommand);
+      });
+      return result.ETag || '';
+    } catch (error: any) {
+      const status = error?.$metadata?.httpStatusCode;
+      if (
+        error?.name === 'PreconditionFailed' ||
+        error?.name === 'ConditionalRequestConflict' ||
+        status === 412 ||
+        status === 409
+      ) {
+        throw new PreconditionFailedError(key);
+      }
+      // MinIO, Ceph and other S3-compatible stores may not implement
+      // conditional PUTs; write unconditionally rather than fail the run
+      if (conditional && (error?.name === 'NotImplemented' || status === 501)) {
+        console.warn(
+          'S3 endpoint does not support conditional writes; writing without optimistic locking'
+        );
+        this.conditionalWrites = false;
+        return this.putObject(key, body, contentType);
+      }
+      console.error(`Failed to write object ${key} to S3:`, error);
+      throw new Error(
+        `S3 upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Null when the key is absent
+  public async headObject(key: string): Promise<StorageObjectHead | null> {
+    try {
+      const head = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+        );
+      });
+      return {
+        key,
+        lastModified: head.LastModified!,
+        size: head.ContentLength || 0,
+        etag: head.ETag || '',
+        ...(head.ContentType ? { contentType: head.ContentType } : {}),
+        metadata: head.Metadata || {},
+        ...(head.StorageClass ? { storageClass: head.StorageClass } : {}),
+        ...(head.ObjectLockRetainUntilDate
+          ? { lockedUntil: head.ObjectLockRetainUntilDate }
+          : {}),
+        ...(head.ObjectLockLegalHoldStatus === 'ON' ? { legalHold: true } : {}),
+      };
+    } catch (error: any) {
+      if (
+        error?.name === 'NotFound' ||
+        error?.$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      console.error(`Failed to read the metadata of ${key}:`, error);
+      throw new Error(
+        `S3 head object failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Metadata can only be replaced by copying the object onto itself
+  public async updateMetadata(
+    key: string,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    try {
+      const head = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+        );
+      });
+
+      const copyCommand = new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        // Pinned, so the version deleted below is the one that was copied
+        CopySource: this.copySource(key, head),
+        MetadataDirective: 'REPLACE',
+        ...(head.ContentType ? { ContentType: head.ContentType } : {}),
+        Metadata: { ...head.Metadata, ...metadata },
+        // A copy is a new write: it would otherwise fall back to STANDARD
+        // and the bucket default encryption
+        ...this.writeOptions(),
+        ...(head.StorageClass ? { StorageClass: head.StorageClass } : {}),
+        ...this.copyLockOptions(head),
+      });
+
+      await this.executeWithRetry(async () => {
+        return await this.s3Client.send(copyCommand);
+      });
+      await this.deleteReplacedVersion(key, head);
+    } catch (error) {
+      console.error(`Failed to update metadata of ${key}:`, error);
+      throw new Error(
+        `S3 metadata update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // On a versioned bucket a self-copy keeps the object it replaces as a
+  // noncurrent version, which would be billed until deleted. A locked version
+  // cannot be deleted yet and stays until retention removes the backup.
+  private async deleteReplacedVersion(
+    key: string,
+    head: HeadObjectCommandOutput
+  ): Promise<void> {
+    if (!head.VersionId || head.VersionId === 'null') {
+      return;
+    }
+    if (
+      (head.ObjectLockRetainUntilDate &&
+        head.ObjectLockRetainUntilDate > new Date()) ||
+      head.ObjectLockLegalHoldStatus === 'ON'
+    ) {
+      console.warn(
+        `The previous version ${head.VersionId} of ${key} is locked and stays until retention deletes the backup`
+      );
+      return;
+    }
+    try {
+      await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            VersionId: head.VersionId,
+          })
+        );
+      });
+    } catch (error) {
+      console.warn(
+        `Failed to delete the previous version ${head.VersionId} of ${key}:`,
+        error
+      );
+    }
+  }
+
+  // Storage classes also change by copying the object onto itself; metadata
+  // and tags are copied along. Objects larger than CopyObject allows are
+  // copied in parts.
+  public async changeStorageClass(
+    key: string,
+    storageClass: S3StorageClass
+  ): Promise<void> {
+    try {
+      const head = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+        );
+      });
+
+      if ((head.ContentLength || 0) > MAX_COPY_OBJECT_BYTES) {
+        await this.copyInParts(key, head, storageClass);
+      } else {
+        await this.executeWithRetry(async () => {
+          return await this.s3Client.send(
+            new CopyObjectCommand({
+              Bucket: this.bucket,
+              Key: key,
+              CopySource: this.copySource(key, head),
+              MetadataDirective: 'COPY',
+              StorageClass: storageClass,
+              ...this.writeOptions(),
+              ...this.copyLockOptions(head),
+            })
+          );
+        });
+      }
+      await this.deleteReplacedVersion(key, head);
+    } catch (error) {
+      console.error(`Failed to move ${key} to ${storageClass}:`, error);
+      throw new Error(
+        `S3 storage class change failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Copies an object onto itself with UploadPartCopy, which has no size
+  // limit but copies neither metadata nor tags; both are set on the new
+  // upload. A failed copy is aborted, since nothing was transferred.
+  private async copyInParts(
+    key: string,
+    head: HeadObjectCommandOutput,
+    storageClass: S3StorageClass
+  ): Promise<void> {
+    const size = head.ContentLength || 0;
+    const partSize = Math.max(
+      COPY_PART_SIZE_MB * MB,
+      Math.ceil(size / MAX_PARTS)
+    );
+    const partCount = Math.ceil(size / partSize);
+    const tagging = await this.executeWithRetry(async () => {
+      return await this.s3Client.send(
+        new GetObjectTaggingCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ...(head.VersionId ? { VersionId: head.VersionId } : {}),
+        })
+      );
+    });
+    const tags = Object.fromEntries(
+      (tagging.TagSet || []).map((tag) => [tag.Key!, tag.Value || ''])
+    );
+
+    const created = await this.executeWithRetry(async () => {
+      return await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ...(head.ContentType ? { ContentType: head.ContentType } : {}),
+          Metadata: head.Metadata || {},
+          StorageClass: storageClass,
+          ...(Object.keys(tags).length > 0
+            ? { Tagging: encodeObjectTags(tags) }
+            : {}),
+          ...this.writeOptions(),
+          ...this.copyLockOptions(head),
+        })
+      );
+    });
+    const uploadId = created.UploadId!;
+
+    try {
+      const parts = await mapWithConcurrency(
+        Array.from({ length: partCount }, (_, index) => index + 1),
+        this.concurrency(),
+        async (partNumber): Promise<CompletedPart> => {
+          const start = (partNumber - 1) * partSize;
+          const end = Math.min(start + partSize, size) - 1;
+          const result = await this.executeWithRetry(async () => {
+            return await this.s3Client.send(
+              new UploadPartCopyCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId,
+                PartNumber: partNumber,
+                CopySource: this.copySource(key, head),
+                CopySourceRange: `bytes=${start}-${end}`,
+              })
+            );
+          });
+          return {
+            PartNumber: partNumber,
+            ETag: result.CopyPartResult!.ETag!,
+          };
+        }
+      );
+      await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new CompleteMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: { Parts: parts },
+          })
+        );
+      });
+    } catch (error) {
+      await this.s3Client
+        .send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+          })
+        )
+        .catch((abortError) => {
+          console.warn(
+            `Failed to abort the copy of ${key}; abortStaleUploads() removes it later:`,
+            abortError
+          );
+        });
+      throw error;
+    }
+  }
+
+  // Pinned to the version read before, so a later write cannot slip into
+  // the copy
+  private copySource(key: string, head: HeadObjectCommandOutput): string {
+    const source = `${this.bucket}/${encodeURIComponent(key)}`;
+    return head.VersionId && head.VersionId !== 'null'
+      ? `${source}?versionId=${encodeURIComponent(head.VersionId)}`
+      : source;
+  }
+
+  // Copies a backup from another bucket reachable with these credentials,
+  // keeping its metadata; storage class, tags and Object Lock are this
+  // bucket's. Objects above 5 GiB have to be streamed instead.
+  public async copyFrom(
+    sourceBucket: string,
+    sourceKey: string,
+    key: string
+  ): Promise<string> {
+    try {
+      console.log(
+        `Copying s3://${sourceBucket}/${sourceKey} to S3 key: ${key}`
+      );
+      const tags = this.config.s3ObjectTags;
+      await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new CopyObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            CopySource: `${sourceBucket}/${encodeURIComponent(sourceKey)}`,
+            MetadataDirective: 'COPY',
+            ...(tags && Object.keys(tags).length > 0
+              ? { TaggingDirective: 'REPLACE' as const }
+              : {}),
+            ...this.backupWriteOptions(),
+          })
+        );
+      });
+      return this.location(key);
     } catch (error) {
-      console.error(`Failed to list objects in S3:`, error);
+      console.error(`Failed to copy ${sourceKey} to ${key}:`, error);
       throw new Error(
-        `S3 list objects failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `S3 copy failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
@@ -117,7 +1033,7 @@ export class S3Client {
       console.log(`Deleting object from S3: ${key}`);
 
       const deleteCommand = new DeleteObjectCommand({
-        Bucket: this.config.s3Bucket,
+        Bucket: this.bucket,
         Key: key,
       });
 
@@ -131,11 +1047,158 @@ export class S3Client {
     }
   }
 
+  /**
+   * Deletes keys with DeleteObjects, up to 1000 per request. Keys S3 refused
+   * are reported with their error instead of failing the whole call; a batch
+   * whose request failed reports every key in it.
+   */
+  public async deleteObjects(
+    keys: string[],
+    options: StorageDeleteOptions = {}
+  ): Promise<StorageDeleteResult> {
+    if (options.allVersions) {
+      return this.deleteObjectVersions(keys);
+    }
+    const result: StorageDeleteResult = { deleted: [], errors: [] };
+    for (let i = 0; i < keys.length; i += MAX_DELETE_BATCH) {
+      const batch = keys.slice(i, i + MAX_DELETE_BATCH);
+      console.log(`Deleting ${batch.length} objects from S3`);
+      try {
+        const response = await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: {
+              Objects: batch.map((key) => ({ Key: key })),
+              Quiet: true,
+            },
+          })
+        );
+        const failed = new Set<string>();
+        for (const error of response.Errors || []) {
+          failed.add(error.Key!);
+          result.errors.push({
+            key: error.Key!,
+            error: `${error.Code || 'Error'}: ${error.Message || 'Unknown error'}`,
+          });
+        }
+        result.deleted.push(...batch.filter((key) => !failed.has(key)));
+      } catch (error) {
+        console.error(
+          `Failed to delete ${batch.length} objects from S3:`,
+          error
+        );
+        const message = `S3 delete objects failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.errors.push(...batch.map((key) => ({ key, error: message })));
+      }
+    }
+    return result;
+  }
+
+  // On a versioned bucket a plain delete only adds a delete marker; this
+  // removes every version and marker of each key by VersionId. A key counts
+  // as deleted once none of its versions is left.
+  private async deleteObjectVersions(
+    keys: string[]
+  ): Promise<StorageDeleteResult> {
+    const result: StorageDeleteResult = { deleted: [], errors: [] };
+    const listed: string[] = [];
+    const versions: { key: string; versionId: string }[] = [];
+    for (const key of keys) {
+      try {
+        for (const versionId of await this.listObjectVersions(key)) {
+          versions.push({ key, versionId });
+        }
+        listed.push(key);
+      } catch (error) {
+        console.error(`Failed to list the versions of ${key}:`, error);
+        result.errors.push({
+          key,
+          error: `S3 list object versions failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    const failed = new Set<string>();
+    for (let i = 0; i < versions.length; i += MAX_DELETE_BATCH) {
+      const batch = versions.slice(i, i + MAX_DELETE_BATCH);
+      console.log(`Deleting ${batch.length} object versions from S3`);
+      try {
+        const response = await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: {
+              Objects: batch.map(({ key, versionId }) => ({
+                Key: key,
+                VersionId: versionId,
+              })),
+              Quiet: true,
+            },
+          })
+        );
+        for (const error of response.Errors || []) {
+          if (!failed.has(error.Key!)) {
+            failed.add(error.Key!);
+            result.errors.push({
+              key: error.Key!,
+              error: `version ${error.VersionId}: ${error.Code || 'Error'}: ${error.Message || 'Unknown error'}`,
+            });
+          }
+        }
+      } catch (error) {
+        console.error(
+          `Failed to delete ${batch.length} object versions from S3:`,
+          error
+        );
+        const message = `S3 delete objects failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        for (const { key } of batch) {
+          if (!failed.has(key)) {
+            failed.add(key);
+            result.errors.push({ key, error: message });
+          }
+        }
+      }
+    }
+    result.deleted.push(...listed.filter((key) => !failed.has(key)));
+    return result;
+  }
+
+  // Version ids of every version and delete marker of exactly this key
+  private async listObjectVersions(key: string): Promise<string[]> {
+    const versionIds: string[] = [];
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+    do {
+      const result = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new ListObjectVersionsCommand({
+            Bucket: this.bucket,
+            Prefix: key,
+            ...(keyMarker ? { KeyMarker: keyMarker } : {}),
+            ...(versionIdMarker ? { VersionIdMarker: versionIdMarker } : {}),
+          })
+        );
+      });
+      for (const version of [
+        ...(result.Versions || []),
+        ...(result.DeleteMarkers || []),
+      ]) {
+        if (version.Key === key && version.VersionId) {
+          versionIds.push(version.VersionId);
+        }
+      }
+      keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+      versionIdMarker = result.IsTruncated
+        ? result.NextVersionIdMarker
+        : undefined;
+    } while (keyMarker);
+    return versionIds;
+  }
+
   public async testConnection(): Promise<boolean> {
     try {
       // Test connection by listing objects with a non-existent prefix
       const listCommand = new ListObjectsV2Command({
-        Bucket: this.config.s3Bucket,
+        Bucket: this.bucket,
         Prefix: 'test-connection-prefix-that-does-not-exist-12345',
         MaxKeys: 1,
       });
@@ -149,10 +1212,68 @@ export class S3Client {
     }
   }
 
+  public location(key: string): string {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  // Signed locally with the current credentials; a link made with temporary
+  // credentials stops working when they expire, whatever expiresIn says
+  public async presignDownload(
+    key: string,
+    expiresIn: number
+  ): Promise<string> {
+    try {
+      // The presigner is typed against its own copy of the smithy client
+      type PresignArguments = Parameters<typeof getSignedUrl>;
+      return await getSignedUrl(
+        this.s3Client as unknown as PresignArguments[0],
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+        }) as unknown as PresignArguments[1],
+        { expiresIn }
+      );
+    } catch (error) {
+      console.error(`Failed to presign ${key}:`, error);
+      throw new Error(
+        `S3 presign failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Object Lock can only be enabled when a bucket is created (or through
+   * AWS support), so a bucket without it is reported before the first
+   * backup rather than failing every upload.
+   */
+  public async verifyObjectLock(): Promise<void> {
+    let enabled: boolean;
+    try {
+      const response = await this.executeWithRetry(async () => {
+        return await this.s3Client.send(
+          new GetObjectLockConfigurationCommand({ Bucket: this.bucket })
+        );
+      });
+      enabled =
+        response.ObjectLockConfiguration?.ObjectLockEnabled === 'Enabled';
+    } catch (error: any) {
+      if (error?.name !== 'ObjectLockConfigurationNotFoundError') {
+        throw new Error(
+          `S3 Object Lock check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      enabled = false;
+    }
+    if (!enabled) {
+      throw new Error(`Object Lock is not enabled on bucket ${this.bucket}`);
+    }
+    console.log(`Object Lock is enabled on bucket ${this.bucket}`);
+  }
+
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelay: number = 1000
+    maxRetries: number = DEFAULT_RETRY_ATTEMPTS,
+    baseDelay: number = RETRY_BASE_DELAY_MS
   ): Promise<T> {
     let lastError: Error;
 
@@ -201,7 +1322,101 @@ export class S3Client {
     );
   }
 
+  // Encryption and ACL apply to every object written, the catalog included,
+  // so all writes satisfy the same bucket policy
+  private writeOptions() {
+    return {
+      ...(this.config.s3ServerSideEncryption
+        ? { ServerSideEncryption: this.config.s3ServerSideEncryption }
+        : {}),
+      ...(this.config.s3KmsKeyId
+        ? { SSEKMSKeyId: this.config.s3KmsKeyId }
+        : {}),
+      ...(this.config.s3Acl ? { ACL: this.config.s3Acl } : {}),
+    };
+  }
+
+  // Storage class, tags and Object Lock only apply to backups; the catalog is
+  // rewritten on every run and would pay the minimum storage duration of
+  // colder classes, and a locked catalog could not be replaced
+  private backupWriteOptions() {
+    const tags = this.config.s3ObjectTags;
+    const retainUntil = objectLockRetainUntil(this.config);
+    return {
+      ...this.writeOptions(),
+      ...(this.config.s3StorageClass
+        ? { StorageClass: this.config.s3StorageClass }
+        : {}),
+      ...(tags && Object.keys(tags).length > 0
+        ? { Tagging: encodeObjectTags(tags) }
+        : {}),
+      ...(this.config.s3ObjectLockMode && retainUntil
+        ? {
+            ObjectLockMode: this.config.s3ObjectLockMode,
+            ObjectLockRetainUntilDate: retainUntil,
+          }
+        : {}),
+      ...(this.config.s3ObjectLockLegalHold
+        ? { ObjectLockLegalHoldStatus: 'ON' as const }
+        : {}),
+    };
+  }
+
+  // A copy becomes the current version and must stay as locked as the one
+  // it replaces
+  private copyLockOptions(head: HeadObjectCommandOutput) {
+    return {
+      ...(head.ObjectLockMode && head.ObjectLockRetainUntilDate
+        ? {
+            ObjectLockMode: head.ObjectLockMode,
+            ObjectLockRetainUntilDate: head.ObjectLockRetainUntilDate,
+          }
+        : {}),
+      ...(head.ObjectLockLegalHoldStatus
+        ? { ObjectLockLegalHoldStatus: head.ObjectLockLegalHoldStatus }
+        : {}),
+    };
+  }
+
+  private partSize(): number {
+    return (this.config.multipartPartSizeMb || DEFAULT_PART_SIZE_MB) * MB;
+  }
+
+  private concurrency(): number {
+    return this.config.multipartConcurrency || DEFAULT_MULTIPART_CONCURRENCY;
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+// Counts the bytes of a streamed upload so the stored size can be checked
+class ByteCountStream extends Transform {
+  public bytes = 0;
+
+  public override _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ): void {
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+}
+
+// Parts are read one at a time, so memory stays at part size x concurrency
+function readFileRange(
+  filePath: string,
+  start: number,
+  length: number
+): Buffer {
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, length, start);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return buffer;
+}
@@ -0,0 +1,79 @@
+import { S3ClientConfig } from '@aws-sdk/client-s3';
+import { fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { BackupConfig } from '../interfaces/BackupConfig';
+
+export const DEFAULT_ROLE_SESSION_NAME = 'postgres-s3-backup';
+
+export interface S3CredentialSource {
+  // Undefined leaves the SDK default provider chain in charge
+  credentials?: S3ClientConfig['credentials'];
+  description: string; // for logs, never includes a secret
+}
+
+/**
+ * Picks the credentials S3Client signs with. Static keys win when both are
+ * set; otherwise the SDK default provider chain resolves them (environment,
+ * web identity for IRSA, SSO and shared profiles, ECS task roles, instance
+ * profiles). With S3_ROLE_ARN, either of those only serves to assume the role.
+ */
+export function resolveS3Credentials(config: BackupConfig): S3CredentialSource {
+  const staticKeys =
+    config.s3AccessKey && config.s3SecretKey
+      ? {
+          accessKeyId: config.s3AccessKey,
+          secretAccessKey: config.s3SecretKey,
+        }
+      : undefined;
+  const base = staticKeys
+    ? `static keys ${maskAccessKeyId(staticKeys.accessKeyId)}`
+    : `default provider chain${defaultChainHint()}`;
+
+  if (!config.s3RoleArn) {
+    return {
+      ...(staticKeys ? { credentials: staticKeys } : {}),
+      description: base,
+    };
+  }
+
+  const sessionName = config.s3RoleSessionName || DEFAULT_ROLE_SESSION_NAME;
+  return {
+    credentials: fromTemporaryCredentials({
+      params: {
+        RoleArn: config.s3RoleArn,
+        RoleSessionName: sessionName,
+        ...(config.s3RoleExternalId
+          ? { ExternalId: config.s3RoleExternalId }
+          : {}),
+      },
+      ...(staticKeys ? { masterCredentials: staticKeys } : {}),
+      clientConfig: { region: config.s3Region || 'us-east-1' },
+    }),
+    description: `role ${config.s3RoleArn} (session ${sessionName}${config.s3RoleExternalId ? ', with external id' : ''}) assumed with ${base}`,
+  };
+}
+
+// AKIA...WXYZ: enough to tell keys apart in logs
+function maskAccessKeyId(accessKeyId: string): string {
+  return `${accessKeyId.slice(0, 4)}...${accessKeyId.slice(-4)}`;
+}
+
+// Which link of the chain is likely to answer, from the environment alone
+function defaultChainHint(): string {
+  const env = process.env;
+  if (env['AWS_ACCESS_KEY_ID']) {
+    return ' (AWS_ACCESS_KEY_ID)';
+  }
+  if (env['AWS_WEB_IDENTITY_TOKEN_FILE']) {
+    return ' (web identity token)';
+  }
+  if (env['AWS_PROFILE']) {
+    return ` (profile ${env['AWS_PROFILE']})`;
+  }
+  if (
+    env['AWS_CONTAINER_CREDENTIALS_RELATIVE_URI'] ||
+    env['AWS_CONTAINER_CREDENTIALS_FULL_URI']
+  ) {
+    return ' (container credentials)';
+  }
+  return '';
+}
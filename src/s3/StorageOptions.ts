@@ -0,0 +1,135 @@
+import {
+  BackupConfig,
+  S3CannedAcl,
+  S3ObjectLockMode,
+  S3ServerSideEncryption,
+  S3StorageClass,
+} from '../interfaces/BackupConfig';
+
+// Classes a backup can be read from right away; restore and verify rely on it
+export const STORAGE_CLASSES: S3StorageClass[] = [
+  'STANDARD',
+  'STANDARD_IA',
+  'ONEZONE_IA',
+  'INTELLIGENT_TIERING',
+  'GLACIER_IR',
+];
+
+export const SERVER_SIDE_ENCRYPTION_MODES: S3ServerSideEncryption[] = [
+  'AES256',
+  'aws:kms',
+  'aws:kms:dsse',
+];
+
+// Public ACLs are left out on purpose: backups hold the whole database
+export const CANNED_ACLS: S3CannedAcl[] = [
+  'private',
+  'bucket-owner-read',
+  'bucket-owner-full-control',
+];
+
+export const OBJECT_LOCK_MODES: S3ObjectLockMode[] = [
+  'GOVERNANCE',
+  'COMPLIANCE',
+];
+
+// CopyObject, used to attach checksums and change storage classes in place,
+// stops at 5 GiB
+export const MAX_COPY_OBJECT_BYTES = 5 * 1024 * 1024 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_UPLOAD_RETRY_ATTEMPTS = 3;
+const DEFAULT_UPLOAD_RETRY_DELAY_MS = 1000;
+
+// S3 object tagging limits
+const MAX_TAGS = 10;
+const MAX_TAG_KEY_LENGTH = 128;
+const MAX_TAG_VALUE_LENGTH = 256;
+
+/**
+ * Parses S3_OBJECT_TAGS, a comma-separated list of key=value pairs such as
+ * `team=data,cost-center=1234`, and enforces the S3 tagging limits so a bad
+ * value fails at startup instead of on the first upload.
+ */
+export function parseObjectTags(
+  value: string,
+  variable = 'S3_OBJECT_TAGS'
+): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const key = separator > 0 ? entry.slice(0, separator).trim() : '';
+    if (!key) {
+      throw new Error(`${variable} entries must be key=value: ${entry}`);
+    }
+    if (key in tags) {
+      throw new Error(`${variable} sets ${key} more than once`);
+    }
+    const tagValue = entry.slice(separator + 1).trim();
+    if (
+      key.length > MAX_TAG_KEY_LENGTH ||
+      tagValue.length > MAX_TAG_VALUE_LENGTH
+    ) {
+      throw new Error(
+        `${variable} keys are limited to ${MAX_TAG_KEY_LENGTH} characters and values to ${MAX_TAG_VALUE_LENGTH}: ${key}`
+      );
+    }
+    tags[key] = tagValue;
+  }
+  if (Object.keys(tags).length > MAX_TAGS) {
+    throw new Error(`${variable} allows at most ${MAX_TAGS} tags`);
+  }
+  return tags;
+}
+
+// The URL query form PutObject and CreateMultipartUpload take in `Tagging`
+export function encodeObjectTags(tags: Record<string, string>): string {
+  return Object.entries(tags)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`
+    )
+    .join('&');
+}
+
+// How often a backup whose stored object fails verification is uploaded,
+// and the wait before the second attempt, which doubles after each
+export interface UploadRetryPolicy {
+  attempts: number;
+  delayMs: number;
+}
+
+export function uploadRetryPolicy(config: BackupConfig): UploadRetryPolicy {
+  return {
+    attempts: config.uploadRetryAttempts ?? DEFAULT_UPLOAD_RETRY_ATTEMPTS,
+    delayMs: config.uploadRetryDelayMs ?? DEFAULT_UPLOAD_RETRY_DELAY_MS,
+  };
+}
+
+export function uploadRetryDelay(
+  policy: UploadRetryPolicy,
+  attempt: number
+): number {
+  return policy.delayMs * Math.pow(2, attempt - 1);
+}
+
+export function hasObjectLock(config: BackupConfig): boolean {
+  return Boolean(config.s3ObjectLockMode || config.s3ObjectLockLegalHold);
+}
+
+// Backups stay locked for as long as the retention policy keeps them, unless
+// S3_OBJECT_LOCK_DAYS sets a period of its own
+export function objectLockRetainUntil(
+  config: BackupConfig,
+  now: Date = new Date()
+): Date | undefined {
+  const days = config.s3ObjectLockDays ?? config.retentionDays;
+  if (!config.s3ObjectLockMode || !days) {
+    return undefined;
+  }
+  return new Date(now.getTime() + days * DAY_MS);
+}
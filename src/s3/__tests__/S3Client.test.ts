@@ -1,15 +1,45 @@
 import { S3Client } from '../S3Client';
 import { BackupConfig } from '../../interfaces/BackupConfig';
+import { UploadVerificationError } from '../../storage/UploadVerificationError';
 import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 
 // Mock AWS SDK
-jest.mock('@aws-sdk/client-s3', () => ({
-  S3Client: jest.fn().mockImplementation(() => ({
-    send: jest.fn(),
-  })),
-  PutObjectCommand: jest.fn(),
-  ListObjectsV2Command: jest.fn(),
-  DeleteObjectCommand: jest.fn(),
+// Multipart commands keep their name and input so `send` can answer each
+jest.mock('@aws-sdk/client-s3', () => {
+  const command = (name: string) =>
+    jest.fn().mockImplementation((input) => ({ name, input }));
+  return {
+    S3Client: jest.fn().mockImplementation(() => ({
+      send: jest.fn(),
+    })),
+    PutObjectCommand: jest.fn(),
+    ListObjectsV2Command: jest.fn(),
+    DeleteObjectCommand: command('DeleteObject'),
+    DeleteObjectsCommand: jest.fn(),
+    GetObjectCommand: jest.fn(),
+    GetObjectLockConfigurationCommand: jest.fn(),
+    HeadObjectCommand: command('HeadObject'),
+    GetObjectTaggingCommand: command('GetObjectTagging'),
+    CopyObjectCommand: jest.fn(),
+    CreateMultipartUploadCommand: command('CreateMultipartUpload'),
+    UploadPartCommand: command('UploadPart'),
+    UploadPartCopyCommand: command('UploadPartCopy'),
+    CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+    AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+    ListMultipartUploadsCommand: command('ListMultipartUploads'),
+    ListPartsCommand: command('ListParts'),
+    ListObjectVersionsCommand: command('ListObjectVersions'),
+  };
+});
+
+jest.mock('@aws-sdk/lib-storage', () => ({
+  Upload: jest.fn(),
+}));
+
+jest.mock('@aws-sdk/s3-request-presigner', () => ({
+  getSignedUrl: jest.fn(),
 }));
 
 // Mock fs module
@@ -44,6 +74,28 @@ describe('S3Client', () => {
     mockSend = mockInstance.send;
   });
 
+  const md5 = (data: string | Buffer) =>
+    createHash('md5').update(data).digest('hex');
+
+  // Serves a 1 KiB local file and answers HeadObject with what the last
+  // PutObject sent, so uploads pass verification unless `stored` differs
+  function acceptUploads(stored: Record<string, unknown> = {}) {
+    const { PutObjectCommand } = require('@aws-sdk/client-s3');
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.statSync.mockReturnValue({ size: 1024 } as fs.Stats);
+    mockFs.readFileSync.mockReturnValue(Buffer.from('test data'));
+    mockSend.mockImplementation(async (command: any) =>
+      command?.name === 'HeadObject'
+        ? {
+            ContentLength: 1024,
+            ETag: `"${md5('test data')}"`,
+            Metadata: PutObjectCommand.mock.calls.at(-1)[0].Metadata,
+            ...stored,
+          }
+        : {}
+    );
+  }
+
   describe('constructor', () => {
     it('should initialize S3 client with basic configuration', () => {
       const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
@@ -56,6 +108,14 @@ describe('S3Client', () => {
       });
     });
 
+    it('should leave credentials to the default provider chain without keys', () => {
+      const { s3AccessKey, s3SecretKey, ...configWithoutKeys } = mockConfig;
+      new S3Client(configWithoutKeys);
+
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      expect(MockedS3Client).toHaveBeenLastCalledWith({ region: 'us-east-1' });
+    });
+
     it('should initialize S3 client with custom endpoint when s3Url is provided', () => {
       const configWithUrl = {
         ...mockConfig,
@@ -77,6 +137,214 @@ describe('S3Client', () => {
     });
   });
 
+  describe('storage options', () => {
+    beforeEach(() => {
+      s3Client = new S3Client({
+        ...mockConfig,
+        s3Region: 'eu-central-1',
+        s3StorageClass: 'STANDARD_IA',
+        s3ServerSideEncryption: 'aws:kms',
+        s3KmsKeyId: 'alias/backups',
+        s3ObjectTags: { team: 'data', 'cost center': 'a&b' },
+        s3Acl: 'bucket-owner-full-control',
+      });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      mockSend.mockResolvedValue({});
+    });
+
+    it('should use the configured region', () => {
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      expect(MockedS3Client).toHaveBeenLastCalledWith(
+        expect.objectContaining({ region: 'eu-central-1' })
+      );
+    });
+
+    it('should apply every option to uploaded backups', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      acceptUploads();
+
+      await s3Client.uploadFile('/tmp/backup.sql.gz', 'backups/backup.sql.gz');
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          StorageClass: 'STANDARD_IA',
+          ServerSideEncryption: 'aws:kms',
+          SSEKMSKeyId: 'alias/backups',
+          Tagging: 'team=data&cost%20center=a%26b',
+          ACL: 'bucket-owner-full-control',
+        })
+      );
+    });
+
+    it('should only encrypt and apply the ACL to documents', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+
+      await s3Client.putObject(
+        'backups/catalog.json',
+        '{}',
+        'application/json'
+      );
+
+      const input = PutObjectCommand.mock.calls[0][0];
+      expect(input).toMatchObject({
+        ServerSideEncryption: 'aws:kms',
+        SSEKMSKeyId: 'alias/backups',
+        ACL: 'bucket-owner-full-control',
+      });
+      expect(input.StorageClass).toBeUndefined();
+      expect(input.Tagging).toBeUndefined();
+    });
+
+    it('should keep encryption and storage class when copying metadata', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend.mockResolvedValueOnce({ StorageClass: 'GLACIER_IR' });
+
+      await s3Client.updateMetadata('backups/backup.sql.gz', { a: 'b' });
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ServerSideEncryption: 'aws:kms',
+          SSEKMSKeyId: 'alias/backups',
+          StorageClass: 'GLACIER_IR',
+        })
+      );
+    });
+  });
+
+  describe('object lock', () => {
+    beforeEach(() => {
+      s3Client = new S3Client({
+        ...mockConfig,
+        retentionDays: 30,
+        s3ObjectLockMode: 'COMPLIANCE',
+        s3ObjectLockLegalHold: true,
+      });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      mockSend.mockResolvedValue({});
+    });
+
+    it('should lock uploaded backups for the retention period', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      acceptUploads();
+      const before = Date.now();
+
+      await s3Client.uploadFile('/tmp/backup.sql.gz', 'backups/backup.sql.gz');
+
+      const input = PutObjectCommand.mock.calls[0][0];
+      expect(input).toMatchObject({
+        ObjectLockMode: 'COMPLIANCE',
+        ObjectLockLegalHoldStatus: 'ON',
+      });
+      const days =
+        (input.ObjectLockRetainUntilDate.getTime() - before) /
+        (24 * 60 * 60 * 1000);
+      expect(days).toBeCloseTo(30, 2);
+    });
+
+    it('should prefer the configured lock period', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      s3Client = new S3Client({
+        ...mockConfig,
+        retentionDays: 30,
+        s3ObjectLockMode: 'GOVERNANCE',
+        s3ObjectLockDays: 7,
+      });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      acceptUploads();
+      const before = Date.now();
+
+      await s3Client.uploadFile('/tmp/backup.sql.gz', 'backups/backup.sql.gz');
+
+      const input = PutObjectCommand.mock.calls[0][0];
+      expect(input.ObjectLockMode).toBe('GOVERNANCE');
+      expect(input.ObjectLockLegalHoldStatus).toBeUndefined();
+      expect(
+        (input.ObjectLockRetainUntilDate.getTime() - before) /
+          (24 * 60 * 60 * 1000)
+      ).toBeCloseTo(7, 2);
+    });
+
+    it('should not lock documents', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+
+      await s3Client.putObject(
+        'backups/catalog.json',
+        '{}',
+        'application/json'
+      );
+
+      const input = PutObjectCommand.mock.calls[0][0];
+      expect(input.ObjectLockMode).toBeUndefined();
+      expect(input.ObjectLockLegalHoldStatus).toBeUndefined();
+    });
+
+    it('should keep the lock when copying metadata', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      const retainUntil = new Date('2030-01-01T00:00:00Z');
+      mockSend.mockResolvedValueOnce({
+        ObjectLockMode: 'COMPLIANCE',
+        ObjectLockRetainUntilDate: retainUntil,
+        ObjectLockLegalHoldStatus: 'ON',
+      });
+
+      await s3Client.updateMetadata('backups/backup.sql.gz', { a: 'b' });
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ObjectLockMode: 'COMPLIANCE',
+          ObjectLockRetainUntilDate: retainUntil,
+          ObjectLockLegalHoldStatus: 'ON',
+        })
+      );
+    });
+
+    it('should report the lock of an object', async () => {
+      const retainUntil = new Date('2030-01-01T00:00:00Z');
+      mockSend.mockResolvedValue({
+        LastModified: new Date(),
+        ETag: '"abc"',
+        ObjectLockRetainUntilDate: retainUntil,
+        ObjectLockLegalHoldStatus: 'OFF',
+      });
+
+      const head = await s3Client.headObject('backups/backup.sql.gz');
+
+      expect(head?.lockedUntil).toEqual(retainUntil);
+      expect(head?.legalHold).toBeUndefined();
+    });
+
+    it('should accept a bucket with Object Lock enabled', async () => {
+      mockSend.mockResolvedValue({
+        ObjectLockConfiguration: { ObjectLockEnabled: 'Enabled' },
+      });
+
+      await expect(s3Client.verifyObjectLock()).resolves.toBeUndefined();
+    });
+
+    it('should reject a bucket without Object Lock', async () => {
+      mockSend.mockRejectedValue(
+        Object.assign(new Error('Object Lock configuration does not exist'), {
+          name: 'ObjectLockConfigurationNotFoundError',
+        })
+      );
+
+      await expect(s3Client.verifyObjectLock()).rejects.toThrow(
+        'Object Lock is not enabled on bucket test-bucket'
+      );
+    });
+
+    it('should report other errors of the check', async () => {
+      mockSend.mockRejectedValue(new Error('AccessDenied'));
+
+      await expect(s3Client.verifyObjectLock()).rejects.toThrow(
+        'S3 Object Lock check failed: AccessDenied'
+      );
+    });
+  });
+
   describe('uploadFile', () => {
     beforeEach(() => {
       mockFs.existsSync.mockReturnValue(true);
@@ -110,7 +378,7 @@ describe('S3Client', () => {
       const filePath = '/tmp/test-backup.sql.gz';
       const key = 'backups/test-backup.sql.gz';
 
-      mockSend.mockResolvedValue({});
+      acceptUploads();
 
       const result = await s3Client.uploadFile(filePath, key);
 
@@ -134,14 +402,16 @@ describe('S3Client', () => {
       const key = 'backups/test-backup.sql.gz';
 
       // Mock first attempt fails with retryable error, second succeeds
-      mockSend
-        .mockRejectedValueOnce(new Error('NetworkingError: Connection timeout'))
-        .mockResolvedValueOnce({});
+      acceptUploads();
+      mockSend.mockRejectedValueOnce(
+        new Error('NetworkingError: Connection timeout')
+      );
 
       const result = await s3Client.uploadFile(filePath, key);
 
       expect(result).toBe('s3://test-bucket/backups/test-backup.sql.gz');
-      expect(mockSend).toHaveBeenCalledTimes(2);
+      // Two PUTs and the HEAD verifying the second
+      expect(mockSend).toHaveBeenCalledTimes(3);
     });
 
     it('should not retry on non-retryable errors', async () => {
@@ -157,6 +427,474 @@ describe('S3Client', () => {
     });
   });
 
+  describe('upload verification', () => {
+    const key = 'backups/test-backup.sql.gz';
+
+    beforeEach(() => {
+      jest.spyOn(s3Client as any, 'sleep').mockResolvedValue(undefined);
+      jest.spyOn(console, 'warn').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should read the object back and compare size, ETag and metadata', async () => {
+      const { HeadObjectCommand } = require('@aws-sdk/client-s3');
+      acceptUploads();
+
+      await s3Client.uploadFile(
+        '/tmp/test-backup.sql.gz',
+        key,
+        'application/gzip',
+        {
+          sha256: 'abc',
+        }
+      );
+
+      expect(HeadObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: key,
+      });
+    });
+
+    it('should upload again when the stored object does not match', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      acceptUploads();
+      let heads = 0;
+      const head = mockSend.getMockImplementation();
+      mockSend.mockImplementation(async (command: any) => {
+        const response = await head(command);
+        // The endpoint acknowledged the first PUT but stored it truncated
+        return command?.name === 'HeadObject' && heads++ === 0
+          ? { ...response, ContentLength: 512 }
+          : response;
+      });
+
+      await s3Client.uploadFile('/tmp/test-backup.sql.gz', key);
+
+      expect(PutObjectCommand).toHaveBeenCalledTimes(2);
+      expect(console.warn).toHaveBeenCalledWith(
+        `Uploaded object ${key} holds 512 bytes instead of 1024 (attempt 1/3), uploading again in 1000ms`
+      );
+    });
+
+    it('should fail once every attempt mismatched', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      acceptUploads({ ETag: '"corrupt"' });
+
+      await expect(
+        s3Client.uploadFile('/tmp/test-backup.sql.gz', key)
+      ).rejects.toThrow(
+        `S3 upload failed: Uploaded object ${key} has ETag "corrupt" instead of "${md5('test data')}"`
+      );
+      expect(PutObjectCommand).toHaveBeenCalledTimes(3);
+    });
+
+    it('should follow the configured retry policy', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      s3Client = new S3Client({
+        ...mockConfig,
+        uploadRetryAttempts: 2,
+        uploadRetryDelayMs: 50,
+      });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      const sleep = jest
+        .spyOn(s3Client as any, 'sleep')
+        .mockResolvedValue(undefined);
+      acceptUploads({ ContentLength: 512 });
+
+      await expect(
+        s3Client.uploadFile('/tmp/test-backup.sql.gz', key)
+      ).rejects.toBeInstanceOf(UploadVerificationError);
+      expect(PutObjectCommand).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(50);
+    });
+
+    it('should report metadata the endpoint dropped', async () => {
+      acceptUploads({ Metadata: {} });
+
+      await expect(
+        s3Client.uploadFile('/tmp/test-backup.sql.gz', key)
+      ).rejects.toThrow(
+        `Uploaded object ${key} has metadata original-filename=(missing) instead of test-backup.sql.gz`
+      );
+    });
+
+    it('should not compare the ETag of KMS-encrypted objects', async () => {
+      acceptUploads({ ETag: '"not-md5"', ServerSideEncryption: 'aws:kms' });
+
+      await expect(
+        s3Client.uploadFile('/tmp/test-backup.sql.gz', key)
+      ).resolves.toBe(`s3://test-bucket/${key}`);
+    });
+
+    it('should skip the check when turned off', async () => {
+      const { HeadObjectCommand } = require('@aws-sdk/client-s3');
+      s3Client = new S3Client({ ...mockConfig, verifyUploads: false });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      acceptUploads({ ContentLength: 0 });
+
+      await s3Client.uploadFile('/tmp/test-backup.sql.gz', key);
+
+      expect(HeadObjectCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multipart file uploads', () => {
+    const MB = 1024 * 1024;
+    const key = 'backups/large.sql.gz';
+    let sent: { name: string; input: any }[];
+
+    // Answers multipart commands through the handlers, by command name
+    function respond(handlers: Record<string, (input: any) => any>) {
+      sent = [];
+      mockSend.mockImplementation(async (command: any) => {
+        sent.push(command);
+        return handlers[command.name]?.(command.input) ?? {};
+      });
+    }
+
+    // HeadObject of the completed upload: 12 MB of zeros in 5 MB parts
+    function storedObject() {
+      const digests = [5, 5, 2].map((size) =>
+        createHash('md5')
+          .update(Buffer.alloc(size * MB))
+          .digest()
+      );
+      return {
+        ContentLength: 12 * MB,
+        ETag: `"${md5(Buffer.concat(digests))}-3"`,
+        Metadata: {
+          'original-filename': 'large.sql.gz',
+          'file-size': String(12 * MB),
+        },
+      };
+    }
+
+    function sentParts(): number[] {
+      return sent
+        .filter((command) => command.name === 'UploadPart')
+        .map((command) => command.input.PartNumber)
+        .sort();
+    }
+
+    beforeEach(() => {
+      s3Client = new S3Client({ ...mockConfig, multipartPartSizeMb: 5 });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.statSync.mockReturnValue({ size: 12 * MB } as fs.Stats);
+    });
+
+    it('should upload large files in parts and retry a failed part', async () => {
+      let failures = 1;
+      respond({
+        ListMultipartUploads: () => ({ Uploads: [] }),
+        CreateMultipartUpload: () => ({ UploadId: 'upload-1' }),
+        UploadPart: (input) => {
+          if (input.PartNumber === 2 && failures-- > 0) {
+            throw new Error('NetworkingError: Connection reset');
+          }
+          return { ETag: `"etag-${input.PartNumber}"` };
+        },
+        HeadObject: storedObject,
+      });
+
+      await s3Client.uploadFile('/tmp/large.sql.gz', key);
+
+      // Part 2 was sent twice, the last part holds the remaining 2 MB
+      expect(sentParts()).toEqual([1, 2, 2, 3]);
+      expect(
+        sent.find(
+          (command) =>
+            command.name === 'UploadPart' && command.input.PartNumber === 3
+        )?.input.Body.length
+      ).toBe(2 * MB);
+      expect(sent.at(-2)).toEqual({
+        name: 'CompleteMultipartUpload',
+        input: {
+          Bucket: 'test-bucket',
+          Key: key,
+          UploadId: 'upload-1',
+          MultipartUpload: {
+            Parts: [1, 2, 3].map((partNumber) => ({
+              PartNumber: partNumber,
+              ETag: `"etag-${partNumber}"`,
+            })),
+          },
+        },
+      });
+    });
+
+    it('should resume an incomplete upload of the same file', async () => {
+      const zeros = createHash('md5')
+        .update(Buffer.alloc(5 * MB))
+        .digest('hex');
+      respond({
+        ListMultipartUploads: () => ({
+          Uploads: [
+            {
+              Key: key,
+              UploadId: 'older',
+              Initiated: new Date('2024-01-01T00:00:00Z'),
+            },
+            {
+              Key: key,
+              UploadId: 'newer',
+              Initiated: new Date('2024-01-01T01:00:00Z'),
+            },
+            {
+              Key: `${key}.other`,
+              UploadId: 'other',
+              Initiated: new Date('2024-01-01T02:00:00Z'),
+            },
+          ],
+        }),
+        ListParts: () => ({
+          Parts: [
+            { PartNumber: 1, ETag: `"${zeros}"`, Size: 5 * MB },
+            { PartNumber: 2, ETag: '"changed"', Size: 5 * MB },
+          ],
+        }),
+        UploadPart: (input) => ({ ETag: `"etag-${input.PartNumber}"` }),
+        HeadObject: storedObject,
+      });
+
+      await s3Client.uploadFile('/tmp/large.sql.gz', key);
+
+      expect(sent.map((command) => command.name)).not.toContain(
+        'CreateMultipartUpload'
+      );
+      expect(sentParts()).toEqual([2, 3]);
+      expect(sent.at(-2)?.input).toMatchObject({
+        UploadId: 'newer',
+        MultipartUpload: {
+          Parts: [
+            { PartNumber: 1, ETag: `"${zeros}"` },
+            { PartNumber: 2, ETag: '"etag-2"' },
+            { PartNumber: 3, ETag: '"etag-3"' },
+          ],
+        },
+      });
+    });
+
+    it('should resume the upload after a transient error', async () => {
+      const sleep = jest
+        .spyOn(s3Client as any, 'sleep')
+        .mockResolvedValue(undefined);
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+      const uploaded: { PartNumber: number; ETag: string; Size: number }[] = [];
+      respond({
+        ListMultipartUploads: () => ({
+          Uploads: uploaded.length
+            ? [{ Key: key, UploadId: 'upload-1', Initiated: new Date() }]
+            : [],
+        }),
+        CreateMultipartUpload: () => ({ UploadId: 'upload-1' }),
+        ListParts: () => ({ Parts: uploaded }),
+        UploadPart: (input) => {
+          // Part 3 keeps failing until the first attempt gives up
+          if (input.PartNumber === 3 && sleep.mock.calls.length < 3) {
+            throw new Error('NetworkingError: Connection reset');
+          }
+          const etag = `"${md5(input.Body)}"`;
+          uploaded.push({
+            PartNumber: input.PartNumber,
+            ETag: etag,
+            Size: input.Body.length,
+          });
+          return { ETag: etag };
+        },
+        HeadObject: storedObject,
+      });
+
+      await s3Client.uploadFile('/tmp/large.sql.gz', key);
+
+      expect(
+        sent.filter((command) => command.name === 'CreateMultipartUpload')
+      ).toHaveLength(1);
+      // Parts 1 and 2 were kept, only part 3 was sent again
+      expect(sentParts()).toEqual([1, 2, 3, 3, 3, 3]);
+      expect(sent.at(-2)?.input).toMatchObject({
+        UploadId: 'upload-1',
+        MultipartUpload: {
+          Parts: [{ PartNumber: 1 }, { PartNumber: 2 }, { PartNumber: 3 }],
+        },
+      });
+      expect(consoleWarn).toHaveBeenCalledWith(
+        'Upload of backups/large.sql.gz failed (attempt 1/3), uploading again in 1000ms: NetworkingError: Connection reset'
+      );
+      consoleError.mockRestore();
+      consoleWarn.mockRestore();
+    });
+
+    it('should leave a failed upload in place for resuming', async () => {
+      respond({
+        CreateMultipartUpload: () => ({ UploadId: 'upload-1' }),
+        UploadPart: () => {
+          throw new Error('AccessDenied');
+        },
+      });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      await expect(
+        s3Client.uploadFile('/tmp/large.sql.gz', key)
+      ).rejects.toThrow('S3 upload failed: AccessDenied');
+      expect(sent.map((command) => command.name)).not.toContain(
+        'AbortMultipartUpload'
+      );
+      consoleError.mockRestore();
+    });
+
+    it('should abort incomplete uploads started before the cutoff', async () => {
+      respond({
+        ListMultipartUploads: (input) =>
+          input.KeyMarker
+            ? {
+                Uploads: [
+                  {
+                    Key: 'backups/b',
+                    UploadId: 'recent',
+                    Initiated: new Date('2024-01-03T00:00:00Z'),
+                  },
+                ],
+              }
+            : {
+                Uploads: [
+                  {
+                    Key: 'backups/a',
+                    UploadId: 'stale',
+                    Initiated: new Date('2024-01-01T00:00:00Z'),
+                  },
+                ],
+                IsTruncated: true,
+                NextKeyMarker: 'backups/a',
+                NextUploadIdMarker: 'stale',
+              },
+      });
+
+      const aborted = await s3Client.abortStaleUploads(
+        'backups/',
+        new Date('2024-01-02T00:00:00Z')
+      );
+
+      expect(aborted).toBe(1);
+      expect(
+        sent.filter((command) => command.name === 'AbortMultipartUpload')
+      ).toEqual([
+        {
+          name: 'AbortMultipartUpload',
+          input: { Bucket: 'test-bucket', Key: 'backups/a', UploadId: 'stale' },
+        },
+      ]);
+    });
+  });
+
+  describe('uploadStream', () => {
+    let received: string;
+
+    // Reads the body like the real Upload, and answers HeadObject with it
+    beforeEach(() => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      received = '';
+      Upload.mockImplementation(({ params }: any) => ({
+        done: jest.fn(async () => {
+          for await (const chunk of params.Body) {
+            received += chunk;
+          }
+          return {};
+        }),
+      }));
+      mockSend.mockImplementation(async () => ({
+        ContentLength: received.length,
+        Metadata: { 'original-filename': 'test-backup.sql.gz' },
+      }));
+    });
+
+    it('should stream the body through a multipart upload', async () => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      const body = Readable.from(['backup data']);
+
+      const result = await s3Client.uploadStream(
+        body,
+        'backups/test-backup.sql.gz'
+      );
+
+      expect(result).toBe('s3://test-bucket/backups/test-backup.sql.gz');
+      expect(received).toBe('backup data');
+      expect(Upload).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: expect.objectContaining({
+            Bucket: 'test-bucket',
+            Key: 'backups/test-backup.sql.gz',
+            Body: expect.any(Readable),
+            ContentType: 'application/gzip',
+          }),
+          partSize: 16 * 1024 * 1024,
+          queueSize: 4,
+          leavePartsOnError: false,
+        })
+      );
+    });
+
+    it('should honour configured part size and concurrency', async () => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      const tunedClient = new S3Client({
+        ...mockConfig,
+        multipartPartSizeMb: 64,
+        multipartConcurrency: 2,
+        verifyUploads: false,
+      });
+
+      await tunedClient.uploadStream(
+        Readable.from(['backup data']),
+        'backups/test-backup.sql.gz'
+      );
+
+      expect(Upload).toHaveBeenCalledWith(
+        expect.objectContaining({
+          partSize: 64 * 1024 * 1024,
+          queueSize: 2,
+        })
+      );
+    });
+
+    it('should handle multipart upload errors', async () => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      Upload.mockImplementation(() => ({
+        done: jest.fn().mockRejectedValue(new Error('AccessDenied')),
+      }));
+
+      await expect(
+        s3Client.uploadStream(
+          Readable.from(['backup data']),
+          'backups/test-backup.sql.gz'
+        )
+      ).rejects.toThrow('S3 upload failed: AccessDenied');
+    });
+
+    it('should fail when the stored object is shorter than the stream', async () => {
+      mockSend.mockResolvedValue({
+        ContentLength: 6,
+        Metadata: { 'original-filename': 'test-backup.sql.gz' },
+      });
+
+      await expect(
+        s3Client.uploadStream(
+          Readable.from(['backup data']),
+          'backups/test-backup.sql.gz'
+        )
+      ).rejects.toThrow(
+        'S3 upload failed: Uploaded object backups/test-backup.sql.gz holds 6 bytes instead of 11'
+      );
+    });
+  });
+
   describe('listObjects', () => {
     it('should list objects successfully', async () => {
       const prefix = 'backups/';
@@ -204,6 +942,36 @@ describe('S3Client', () => {
       expect(result).toEqual([]);
     });
 
+    it('should follow continuation tokens across pages', async () => {
+      const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+      mockSend
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'backups/a', LastModified: new Date(), Size: 1 }],
+          IsTruncated: true,
+          NextContinuationToken: 'page-2',
+        })
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'backups/b', LastModified: new Date(), Size: 2 }],
+          IsTruncated: false,
+        });
+
+      const keys: string[] = [];
+      for await (const object of s3Client.iterateObjects('backups/')) {
+        keys.push(object.key);
+      }
+
+      expect(keys).toEqual(['backups/a', 'backups/b']);
+      expect(ListObjectsV2Command).toHaveBeenNthCalledWith(1, {
+        Bucket: 'test-bucket',
+        Prefix: 'backups/',
+      });
+      expect(ListObjectsV2Command).toHaveBeenNthCalledWith(2, {
+        Bucket: 'test-bucket',
+        Prefix: 'backups/',
+        ContinuationToken: 'page-2',
+      });
+    });
+
     it('should handle list objects error', async () => {
       const prefix = 'backups/';
 
@@ -215,6 +983,470 @@ describe('S3Client', () => {
     });
   });
 
+  describe('downloadStream', () => {
+    it('should return the object body stream', async () => {
+      const body = Readable.from(['backup data']);
+      mockSend.mockResolvedValue({ Body: body });
+
+      const result = await s3Client.downloadStream('backups/file1.sql.gz');
+
+      expect(result).toBe(body);
+      const { GetObjectCommand } = require('@aws-sdk/client-s3');
+      expect(GetObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/file1.sql.gz',
+      });
+    });
+
+    it('should fail when the object has no body', async () => {
+      mockSend.mockResolvedValue({});
+
+      await expect(
+        s3Client.downloadStream('backups/file1.sql.gz')
+      ).rejects.toThrow(
+        'S3 download failed: Object has no body: backups/file1.sql.gz'
+      );
+    });
+
+    it('should handle download errors', async () => {
+      mockSend.mockRejectedValue(new Error('NoSuchKey'));
+
+      await expect(
+        s3Client.downloadStream('backups/missing.sql.gz')
+      ).rejects.toThrow('S3 download failed: NoSuchKey');
+    });
+  });
+
+  describe('downloadObject', () => {
+    it('should return the body with its user metadata', async () => {
+      const body = Readable.from(['backup data']);
+      mockSend.mockResolvedValue({
+        Body: body,
+        Metadata: { encryption: 'AES-256-GCM' },
+      });
+
+      const result = await s3Client.downloadObject('backups/file1.sql.gz');
+
+      expect(result).toEqual({
+        body,
+        metadata: { encryption: 'AES-256-GCM' },
+      });
+    });
+  });
+
+  describe('readObject', () => {
+    it('should return the body and ETag', async () => {
+      mockSend.mockResolvedValue({
+        Body: { transformToString: async () => '{"version":1}' },
+        ETag: '"abc"',
+      });
+
+      await expect(
+        s3Client.readObject('backups/catalog.json')
+      ).resolves.toEqual({ body: '{"version":1}', etag: '"abc"' });
+    });
+
+    it('should return null for a missing key', async () => {
+      mockSend.mockRejectedValue(
+        Object.assign(new Error('The specified key does not exist.'), {
+          name: 'NoSuchKey',
+        })
+      );
+
+      await expect(
+        s3Client.readObject('backups/catalog.json')
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('headObject', () => {
+    it('should return size, ETag and metadata', async () => {
+      const lastModified = new Date('2024-01-01T00:00:00Z');
+      mockSend.mockResolvedValue({
+        LastModified: lastModified,
+        ContentLength: 1024,
+        ETag: '"abc"',
+        ContentType: 'application/gzip',
+        Metadata: { sha256: 'def' },
+      });
+
+      await expect(
+        s3Client.headObject('backups/backup.sql.gz')
+      ).resolves.toEqual({
+        key: 'backups/backup.sql.gz',
+        lastModified,
+        size: 1024,
+        etag: '"abc"',
+        contentType: 'application/gzip',
+        metadata: { sha256: 'def' },
+      });
+    });
+
+    it('should return null for a missing key', async () => {
+      mockSend.mockRejectedValue(
+        Object.assign(new Error('NotFound'), { name: 'NotFound' })
+      );
+
+      await expect(
+        s3Client.headObject('backups/backup.sql.gz')
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('presignDownload', () => {
+    it('should sign a GET of the key', async () => {
+      const { GetObjectCommand } = require('@aws-sdk/client-s3');
+      const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
+      getSignedUrl.mockResolvedValue('https://signed');
+
+      const url = await s3Client.presignDownload('backups/a.sql.gz', 900);
+
+      expect(url).toBe('https://signed');
+      expect(GetObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/a.sql.gz',
+      });
+      expect(getSignedUrl).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        {
+          expiresIn: 900,
+        }
+      );
+    });
+  });
+
+  describe('putObject', () => {
+    it('should pass the write conditions', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend.mockResolvedValue({ ETag: '"def"' });
+
+      const etag = await s3Client.putObject(
+        'backups/catalog.json',
+        '{}',
+        'application/json',
+        { ifMatch: '"abc"' }
+      );
+
+      expect(etag).toBe('"def"');
+      expect(PutObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/catalog.json',
+        Body: '{}',
+        ContentType: 'application/json',
+        IfMatch: '"abc"',
+      });
+    });
+
+    it('should report a failed precondition', async () => {
+      const {
+        PreconditionFailedError,
+      } = require('../../storage/PreconditionFailedError');
+      mockSend.mockRejectedValue(
+        Object.assign(new Error('At least one of the pre-conditions failed'), {
+          name: 'PreconditionFailed',
+        })
+      );
+
+      await expect(
+        s3Client.putObject('backups/catalog.json', '{}', 'application/json', {
+          ifNoneMatch: '*',
+        })
+      ).rejects.toBeInstanceOf(PreconditionFailedError);
+    });
+
+    it('should fall back to unconditional writes when they are not implemented', async () => {
+      const { PutObjectCommand } = require('@aws-sdk/client-s3');
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+      mockSend
+        .mockRejectedValueOnce(
+          Object.assign(
+            new Error(
+              'A header you provided implies functionality that is not implemented'
+            ),
+            {
+              name: 'NotImplemented',
+              $metadata: { httpStatusCode: 501 },
+            }
+          )
+        )
+        .mockResolvedValue({ ETag: '"def"' });
+
+      const etag = await s3Client.putObject(
+        'backups/catalog.json',
+        '{}',
+        'application/json',
+        { ifNoneMatch: '*' }
+      );
+      await s3Client.putObject(
+        'backups/catalog.json',
+        '{}',
+        'application/json',
+        {
+          ifMatch: '"def"',
+        }
+      );
+
+      expect(etag).toBe('"def"');
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(PutObjectCommand).toHaveBeenLastCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/catalog.json',
+        Body: '{}',
+        ContentType: 'application/json',
+      });
+      expect(consoleWarn).toHaveBeenCalledTimes(1);
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('updateMetadata', () => {
+    it('should copy the object onto itself with merged metadata', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend
+        .mockResolvedValueOnce({
+          ContentType: 'application/gzip',
+          Metadata: { 'upload-timestamp': '2024-01-01T00:00:00Z' },
+        })
+        .mockResolvedValueOnce({});
+
+      await s3Client.updateMetadata('backups/a b.sql.gz', { sha256: 'abc' });
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/a b.sql.gz',
+        CopySource: 'test-bucket/backups%2Fa%20b.sql.gz',
+        MetadataDirective: 'REPLACE',
+        ContentType: 'application/gzip',
+        Metadata: {
+          'upload-timestamp': '2024-01-01T00:00:00Z',
+          sha256: 'abc',
+        },
+      });
+    });
+
+    it('should delete the version the copy replaced on a versioned bucket', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend
+        .mockResolvedValueOnce({ VersionId: 'v1', Metadata: {} })
+        .mockResolvedValueOnce({ VersionId: 'v2' })
+        .mockResolvedValueOnce({});
+
+      await s3Client.updateMetadata('backups/a.sql.gz', { sha256: 'abc' });
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          CopySource: 'test-bucket/backups%2Fa.sql.gz?versionId=v1',
+        })
+      );
+      expect(mockSend.mock.calls[2][0]).toEqual({
+        name: 'DeleteObject',
+        input: {
+          Bucket: 'test-bucket',
+          Key: 'backups/a.sql.gz',
+          VersionId: 'v1',
+        },
+      });
+    });
+
+    it('should keep a replaced version that is still locked', async () => {
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+      mockSend
+        .mockResolvedValueOnce({
+          VersionId: 'v1',
+          Metadata: {},
+          ObjectLockMode: 'GOVERNANCE',
+          ObjectLockRetainUntilDate: new Date('2099-01-01T00:00:00Z'),
+        })
+        .mockResolvedValueOnce({ VersionId: 'v2' });
+
+      await s3Client.updateMetadata('backups/a.sql.gz', { sha256: 'abc' });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(consoleWarn).toHaveBeenCalledWith(
+        'The previous version v1 of backups/a.sql.gz is locked and stays until retention deletes the backup'
+      );
+      consoleWarn.mockRestore();
+    });
+
+    it('should handle metadata update errors', async () => {
+      mockSend.mockRejectedValue(new Error('AccessDenied'));
+
+      await expect(
+        s3Client.updateMetadata('backups/a.sql.gz', { sha256: 'abc' })
+      ).rejects.toThrow('S3 metadata update failed: AccessDenied');
+    });
+  });
+
+  describe('changeStorageClass', () => {
+    it('should copy the object onto itself in the new class', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend
+        .mockResolvedValueOnce({
+          ContentLength: 1024,
+          StorageClass: 'STANDARD_IA',
+        })
+        .mockResolvedValueOnce({});
+
+      await s3Client.changeStorageClass('backups/a b.sql.gz', 'GLACIER_IR');
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backups/a b.sql.gz',
+        CopySource: 'test-bucket/backups%2Fa%20b.sql.gz',
+        MetadataDirective: 'COPY',
+        StorageClass: 'GLACIER_IR',
+      });
+    });
+
+    it('should copy objects larger than CopyObject allows in parts', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      const size = 6 * 1024 ** 3;
+      mockSend.mockImplementation(async (command: any) => {
+        switch (command.name) {
+          case 'HeadObject':
+            return {
+              ContentLength: size,
+              ContentType: 'application/gzip',
+              Metadata: { sha256: 'abc' },
+            };
+          case 'GetObjectTagging':
+            return { TagSet: [{ Key: 'team', Value: 'data' }] };
+          case 'CreateMultipartUpload':
+            return { UploadId: 'copy-1' };
+          case 'UploadPartCopy':
+            return {
+              CopyPartResult: { ETag: `"${command.input.PartNumber}"` },
+            };
+          default:
+            return {};
+        }
+      });
+
+      await s3Client.changeStorageClass('backups/big.sql.gz', 'GLACIER_IR');
+
+      const sent = mockSend.mock.calls.map(([command]: any[]) => command);
+      expect(CopyObjectCommand).not.toHaveBeenCalled();
+      expect(sent.find((c: any) => c.name === 'CreateMultipartUpload')).toEqual(
+        {
+          name: 'CreateMultipartUpload',
+          input: {
+            Bucket: 'test-bucket',
+            Key: 'backups/big.sql.gz',
+            ContentType: 'application/gzip',
+            Metadata: { sha256: 'abc' },
+            StorageClass: 'GLACIER_IR',
+            Tagging: 'team=data',
+          },
+        }
+      );
+      const ranges = sent
+        .filter((c: any) => c.name === 'UploadPartCopy')
+        .map((c: any) => c.input.CopySourceRange);
+      expect(ranges).toHaveLength(12);
+      expect(ranges[0]).toBe(`bytes=0-${512 * 1024 ** 2 - 1}`);
+      expect(ranges[11]).toBe(`bytes=${11 * 512 * 1024 ** 2}-${size - 1}`);
+      expect(
+        sent.find((c: any) => c.name === 'CompleteMultipartUpload').input
+          .MultipartUpload.Parts
+      ).toHaveLength(12);
+    });
+
+    it('should abort a copy in parts that failed', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      mockSend.mockImplementation(async (command: any) => {
+        switch (command.name) {
+          case 'HeadObject':
+            return { ContentLength: 6 * 1024 ** 3 };
+          case 'CreateMultipartUpload':
+            return { UploadId: 'copy-1' };
+          case 'UploadPartCopy':
+            throw new Error('AccessDenied');
+          default:
+            return {};
+        }
+      });
+
+      await expect(
+        s3Client.changeStorageClass('backups/big.sql.gz', 'GLACIER_IR')
+      ).rejects.toThrow('S3 storage class change failed: AccessDenied');
+      expect(mockSend.mock.calls.at(-1)[0]).toEqual({
+        name: 'AbortMultipartUpload',
+        input: {
+          Bucket: 'test-bucket',
+          Key: 'backups/big.sql.gz',
+          UploadId: 'copy-1',
+        },
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should delete the version the move replaced on a versioned bucket', async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      mockSend
+        .mockResolvedValueOnce({ ContentLength: 1024, VersionId: 'v1' })
+        .mockResolvedValueOnce({ VersionId: 'v2' })
+        .mockResolvedValueOnce({});
+
+      await s3Client.changeStorageClass('backups/a.sql.gz', 'GLACIER_IR');
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          CopySource: 'test-bucket/backups%2Fa.sql.gz?versionId=v1',
+        })
+      );
+      expect(mockSend.mock.calls[2][0]).toEqual({
+        name: 'DeleteObject',
+        input: {
+          Bucket: 'test-bucket',
+          Key: 'backups/a.sql.gz',
+          VersionId: 'v1',
+        },
+      });
+    });
+  });
+
+  describe('copyFrom', () => {
+    it("should copy from another bucket with this bucket's storage options", async () => {
+      const { CopyObjectCommand } = require('@aws-sdk/client-s3');
+      s3Client = new S3Client({
+        ...mockConfig,
+        s3StorageClass: 'STANDARD_IA',
+        s3ObjectTags: { team: 'data' },
+      });
+      const { S3Client: MockedS3Client } = require('@aws-sdk/client-s3');
+      mockSend = MockedS3Client.mock.results.at(-1).value.send;
+      mockSend.mockResolvedValueOnce({});
+
+      const location = await s3Client.copyFrom(
+        'orders',
+        'backups/a b.sql.gz',
+        'offsite/a b.sql.gz'
+      );
+
+      expect(location).toBe('s3://test-bucket/offsite/a b.sql.gz');
+      expect(CopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'offsite/a b.sql.gz',
+        CopySource: 'orders/backups%2Fa%20b.sql.gz',
+        MetadataDirective: 'COPY',
+        TaggingDirective: 'REPLACE',
+        StorageClass: 'STANDARD_IA',
+        Tagging: 'team=data',
+      });
+    });
+
+    it('should handle copy errors', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      mockSend.mockRejectedValue(new Error('AccessDenied'));
+
+      await expect(
+        s3Client.copyFrom('orders', 'backups/a.sql.gz', 'backups/a.sql.gz')
+      ).rejects.toThrow('S3 copy failed: AccessDenied');
+      consoleError.mockRestore();
+    });
+  });
+
   describe('deleteObject', () => {
     it('should delete object successfully', async () => {
       const key = 'backups/old-backup.sql.gz';
@@ -237,6 +1469,102 @@ describe('S3Client', () => {
     });
   });
 
+  describe('deleteObjects', () => {
+    it('should delete in batches of 1000 keys', async () => {
+      const { DeleteObjectsCommand } = require('@aws-sdk/client-s3');
+      const keys = Array.from({ length: 2500 }, (_, i) => `backups/${i}`);
+      mockSend.mockResolvedValue({});
+
+      const result = await s3Client.deleteObjects(keys);
+
+      expect(result).toEqual({ deleted: keys, errors: [] });
+      expect(
+        DeleteObjectsCommand.mock.calls.map(
+          ([input]: any[]) => input.Delete.Objects.length
+        )
+      ).toEqual([1000, 1000, 500]);
+      expect(DeleteObjectsCommand.mock.calls[0][0]).toMatchObject({
+        Bucket: 'test-bucket',
+        Delete: { Quiet: true },
+      });
+    });
+
+    it('should report the keys S3 refused to delete', async () => {
+      mockSend.mockResolvedValue({
+        Errors: [
+          { Key: 'backups/b', Code: 'AccessDenied', Message: 'Access Denied' },
+        ],
+      });
+
+      const result = await s3Client.deleteObjects(['backups/a', 'backups/b']);
+
+      expect(result).toEqual({
+        deleted: ['backups/a'],
+        errors: [{ key: 'backups/b', error: 'AccessDenied: Access Denied' }],
+      });
+    });
+
+    it('should delete every version of each key when asked to', async () => {
+      const { DeleteObjectsCommand } = require('@aws-sdk/client-s3');
+      mockSend.mockImplementation(async (command: any) => {
+        if (command.name !== 'ListObjectVersions') {
+          return {
+            Errors: [
+              {
+                Key: 'backups/b',
+                VersionId: 'b1',
+                Code: 'AccessDenied',
+                Message: 'Access Denied',
+              },
+            ],
+          };
+        }
+        return command.input.Prefix === 'backups/a'
+          ? {
+              Versions: [
+                { Key: 'backups/a', VersionId: 'a2' },
+                { Key: 'backups/a', VersionId: 'a1' },
+                { Key: 'backups/ab', VersionId: 'ab1' },
+              ],
+              DeleteMarkers: [{ Key: 'backups/a', VersionId: 'a3' }],
+            }
+          : { Versions: [{ Key: 'backups/b', VersionId: 'b1' }] };
+      });
+
+      const result = await s3Client.deleteObjects(['backups/a', 'backups/b'], {
+        allVersions: true,
+      });
+
+      expect(DeleteObjectsCommand.mock.calls[0][0].Delete.Objects).toEqual([
+        { Key: 'backups/a', VersionId: 'a2' },
+        { Key: 'backups/a', VersionId: 'a1' },
+        { Key: 'backups/a', VersionId: 'a3' },
+        { Key: 'backups/b', VersionId: 'b1' },
+      ]);
+      expect(result).toEqual({
+        deleted: ['backups/a'],
+        errors: [
+          {
+            key: 'backups/b',
+            error: 'version b1: AccessDenied: Access Denied',
+          },
+        ],
+      });
+    });
+
+    it('should fail every key of a batch whose request failed', async () => {
+      mockSend.mockRejectedValue(new Error('Slow Down'));
+
+      const result = await s3Client.deleteObjects(['backups/a', 'backups/b']);
+
+      expect(result.deleted).toEqual([]);
+      expect(result.errors).toEqual([
+        { key: 'backups/a', error: 'S3 delete objects failed: Slow Down' },
+        { key: 'backups/b', error: 'S3 delete objects failed: Slow Down' },
+      ]);
+    });
+  });
+
   describe('testConnection', () => {
     it('should return true when connection test succeeds', async () => {
       mockSend.mockResolvedValue({
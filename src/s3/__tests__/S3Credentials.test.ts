@@ -0,0 +1,101 @@
+import { fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { resolveS3Credentials } from '../S3Credentials';
+import { BackupConfig } from '../../interfaces/BackupConfig';
+
+jest.mock('@aws-sdk/credential-providers', () => ({
+  fromTemporaryCredentials: jest.fn().mockReturnValue('assume-role-provider'),
+}));
+const mockFromTemporaryCredentials = fromTemporaryCredentials as jest.Mock;
+
+describe('resolveS3Credentials', () => {
+  const originalEnv = process.env;
+  let config: BackupConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env['AWS_ACCESS_KEY_ID'];
+    delete process.env['AWS_WEB_IDENTITY_TOKEN_FILE'];
+    delete process.env['AWS_PROFILE'];
+    config = {
+      s3Bucket: 'test-bucket',
+      s3Path: 'backups',
+      postgresConnectionString: 'postgresql://localhost:5432/testdb',
+      backupInterval: '0 2 * * *',
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should sign with static keys when they are set', () => {
+    const source = resolveS3Credentials({
+      ...config,
+      s3AccessKey: 'AKIAEXAMPLEKEY1234',
+      s3SecretKey: 'secret',
+    });
+
+    expect(source).toEqual({
+      credentials: {
+        accessKeyId: 'AKIAEXAMPLEKEY1234',
+        secretAccessKey: 'secret',
+      },
+      description: 'static keys AKIA...1234',
+    });
+  });
+
+  it('should leave the default provider chain in charge without keys', () => {
+    process.env['AWS_WEB_IDENTITY_TOKEN_FILE'] = '/var/run/secrets/token';
+
+    expect(resolveS3Credentials(config)).toEqual({
+      description: 'default provider chain (web identity token)',
+    });
+  });
+
+  it('should assume a role with an external id and session name', () => {
+    const source = resolveS3Credentials({
+      ...config,
+      s3Region: 'eu-central-1',
+      s3RoleArn: 'arn:aws:iam::123456789012:role/backup',
+      s3RoleExternalId: 'ext-123',
+      s3RoleSessionName: 'nightly',
+    });
+
+    expect(source.credentials).toBe('assume-role-provider');
+    expect(mockFromTemporaryCredentials).toHaveBeenCalledWith({
+      params: {
+        RoleArn: 'arn:aws:iam::123456789012:role/backup',
+        RoleSessionName: 'nightly',
+        ExternalId: 'ext-123',
+      },
+      clientConfig: { region: 'eu-central-1' },
+    });
+    expect(source.description).toBe(
+      'role arn:aws:iam::123456789012:role/backup (session nightly, with external id) assumed with default provider chain'
+    );
+    expect(source.description).not.toContain('ext-123');
+  });
+
+  it('should assume the role with static keys when they are set', () => {
+    resolveS3Credentials({
+      ...config,
+      s3AccessKey: 'AKIAEXAMPLEKEY1234',
+      s3SecretKey: 'secret',
+      s3RoleArn: 'arn:aws:iam::123456789012:role/backup',
+    });
+
+    expect(mockFromTemporaryCredentials).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: {
+          RoleArn: 'arn:aws:iam::123456789012:role/backup',
+          RoleSessionName: 'postgres-s3-backup',
+        },
+        masterCredentials: {
+          accessKeyId: 'AKIAEXAMPLEKEY1234',
+          secretAccessKey: 'secret',
+        },
+      })
+    );
+  });
+});
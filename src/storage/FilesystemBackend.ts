@@ -0,0 +1,393 @@
+import { BackupConfig } from '../interfaces/BackupConfig';
+import {
+  StorageBackend,
+  StorageDeleteResult,
+  StorageDocument,
+  StorageDownload,
+  StorageObject,
+  StorageObjectHead,
+  StorageWriteConditions,
+} from '../interfaces/StorageBackend';
+import { PreconditionFailedError } from './PreconditionFailedError';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+
+// Object metadata lives in a parallel tree so listings only see backups
+const METADATA_DIR = '.metadata';
+// Writes land in a temporary file next to the target and are renamed into
+// place, so readers never see a partial object
+const PARTIAL_SUFFIX = '.partial';
+
+interface StoredMetadata {
+  contentType?: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Keeps backups in a local or mounted directory (NFS, a backup volume), with
+ * STORAGE_PATH as the root and keys as relative paths. It offers the same
+ * contract as S3Client: writes are atomic renames, ETags are MD5 digests and
+ * metadata is stored in JSON files under `.metadata`.
+ */
+export class FilesystemBackend implements StorageBackend {
+  private root: string;
+
+  constructor(config: BackupConfig) {
+    if (!config.storagePath) {
+      throw new Error('The filesystem backend requires STORAGE_PATH');
+    }
+    this.root = path.resolve(config.storagePath);
+  }
+
+  public async uploadFile(
+    filePath: string,
+    key: string,
+    contentType?: string,
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
+    return this.uploadStream(
+      fs.createReadStream(filePath),
+      key,
+      contentType,
+      metadata
+    );
+  }
+
+  public async uploadStream(
+    stream: Readable,
+    key: string,
+    contentType?: string,
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
+    const target = this.pathFor(key);
+    const partial = partialPath(target);
+    try {
+      console.log(`Writing backup to ${target}`);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(stream, fs.createWriteStream(partial));
+      await fs.promises.rename(partial, target);
+      // Only once the object exists, so a failed write leaves no sidecar
+      await this.writeMetadata(key, {
+        ...(contentType ? { contentType } : {}),
+        metadata,
+      });
+      console.log(`Successfully wrote backup to ${target}`);
+      return this.location(key);
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      console.error(`Failed to write backup ${key}:`, error);
+      throw new Error(
+        `Filesystem upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  public async downloadStream(key: string): Promise<Readable> {
+    return (await this.downloadObject(key)).body;
+  }
+
+  public async downloadObject(key: string): Promise<StorageDownload> {
+    try {
+      const filePath = this.pathFor(key);
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      const { contentType, metadata } = await this.readMetadata(key);
+      return {
+        body: fs.createReadStream(filePath),
+        metadata,
+        ...(contentType ? { contentType } : {}),
+      };
+    } catch (error) {
+      console.error(`Failed to read object ${key}:`, error);
+      throw new Error(
+        `Filesystem download failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Small documents such as the backup catalog; null when the key is absent
+  public async readObject(key: string): Promise<StorageDocument | null> {
+    try {
+      const body = await fs.promises.readFile(this.pathFor(key), 'utf8');
+      return { body, etag: etagOf(body) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(
+        `Filesystem read failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // The conditions are checked before the rename; that is enough for the one
+  // scheduler writing at a time, not a lock between hosts sharing a mount
+  public async putObject(
+    key: string,
+    body: string,
+    contentType: string,
+    conditions: StorageWriteConditions = {}
+  ): Promise<string> {
+    const current = await this.readObject(key);
+    if (
+      (conditions.ifNoneMatch === '*' && current) ||
+      (conditions.ifMatch && current?.etag !== conditions.ifMatch)
+    ) {
+      throw new PreconditionFailedError(key);
+    }
+    await this.uploadStream(Readable.from([body]), key, contentType);
+    return etagOf(body);
+  }
+
+  public async listObjects(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    for await (const object of this.iterateObjects(prefix)) {
+      objects.push(object);
+    }
+    console.log(`Found ${objects.length} objects with prefix: ${prefix}`);
+    return objects;
+  }
+
+  // Walks the directory holding the prefix, like a ListObjectsV2 prefix match
+  public async *iterateObjects(prefix: string): AsyncGenerator<StorageObject> {
+    const start = prefix.includes('/')
+      ? prefix.slice(0, prefix.lastIndexOf('/'))
+      : '';
+    for await (const key of this.walk(start)) {
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+      const stats = await fs.promises.stat(this.pathFor(key));
+      yield { key, lastModified: stats.mtime, size: stats.size };
+    }
+  }
+
+  public async headObject(key: string): Promise<StorageObjectHead | null> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(
+        `Filesystem head object failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    const stored = await this.readMetadata(key);
+    return {
+      key,
+      lastModified: stats.mtime,
+      size: stats.size,
+      etag: await fileEtag(this.pathFor(key)),
+      ...(stored.contentType ? { contentType: stored.contentType } : {}),
+      metadata: stored.metadata,
+    };
+  }
+
+  public async updateMetadata(
+    key: string,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    try {
+      await fs.promises.access(this.pathFor(key));
+      const stored = await this.readMetadata(key);
+      await this.writeMetadata(key, {
+        ...stored,
+        metadata: { ...stored.metadata, ...metadata },
+      });
+    } catch (error) {
+      console.error(`Failed to update metadata of ${key}:`, error);
+      throw new Error(
+        `Filesystem metadata update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Configuration rejects BACKUP_TIERING for this backend
+  public async changeStorageClass(key: string): Promise<void> {
+    throw new Error(
+      `Storage classes are not available on the filesystem backend: ${key}`
+    );
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.pathFor(key), { force: true });
+      await fs.promises.rm(this.metadataPathFor(key), { force: true });
+      await this.removeEmptyParents(key);
+      console.log(`Successfully deleted object: ${key}`);
+    } catch (error) {
+      console.error(`Failed to delete object ${key}:`, error);
+      throw new Error(
+        `Filesystem delete object failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  // Files have no versions, so there are no delete options to honour
+  public async deleteObjects(keys: string[]): Promise<StorageDeleteResult> {
+    const result: StorageDeleteResult = { deleted: [], errors: [] };
+    for (const key of keys) {
+      try {
+        await this.deleteObject(key);
+        result.deleted.push(key);
+      } catch (error) {
+        result.errors.push({
+          key,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return result;
+  }
+
+  // Temporary files left behind by interrupted writes
+  public async abortStaleUploads(
+    prefix: string,
+    olderThan: Date
+  ): Promise<number> {
+    let removed = 0;
+    const start = prefix.includes('/')
+      ? prefix.slice(0, prefix.lastIndexOf('/'))
+      : '';
+    for await (const key of this.walk(start, true)) {
+      if (!key.startsWith(prefix) || !key.endsWith(PARTIAL_SUFFIX)) {
+        continue;
+      }
+      const filePath = this.pathFor(key);
+      const stats = await fs.promises.stat(filePath);
+      if (stats.mtime < olderThan) {
+        await fs.promises.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public async testConnection(): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(this.root, { recursive: true });
+      await fs.promises.access(
+        this.root,
+        fs.constants.R_OK | fs.constants.W_OK
+      );
+      console.log('Storage directory test successful');
+      return true;
+    } catch (error) {
+      console.error('Storage directory test failed:', error);
+      return false;
+    }
+  }
+
+  public location(key: string): string {
+    return pathToFileURL(path.resolve(this.root, ...key.split('/'))).href;
+  }
+
+  // Keys are relative paths that must stay inside the root
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.root, ...key.split('/'));
+    if (!filePath.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Key is outside the storage directory: ${key}`);
+    }
+    return filePath;
+  }
+
+  private metadataPathFor(key: string): string {
+    return this.pathFor(`${METADATA_DIR}/${key}.json`);
+  }
+
+  private async readMetadata(key: string): Promise<StoredMetadata> {
+    try {
+      return JSON.parse(
+        await fs.promises.readFile(this.metadataPathFor(key), 'utf8')
+      ) as StoredMetadata;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return { metadata: {} };
+      }
+      throw error;
+    }
+  }
+
+  private async writeMetadata(
+    key: string,
+    stored: StoredMetadata
+  ): Promise<void> {
+    const metadataPath = this.metadataPathFor(key);
+    await fs.promises.mkdir(path.dirname(metadataPath), { recursive: true });
+    const partial = partialPath(metadataPath);
+    await fs.promises.writeFile(partial, JSON.stringify(stored));
+    await fs.promises.rename(partial, metadataPath);
+  }
+
+  // Yields the keys of files under a directory, skipping the metadata tree
+  // and, unless asked for, temporary files
+  private async *walk(
+    directory: string,
+    includePartial = false
+  ): AsyncGenerator<string> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(
+        directory ? this.pathFor(directory) : this.root,
+        { withFileTypes: true }
+      );
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+        return;
+      }
+      throw new Error(
+        `Filesystem list objects failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const key = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (key !== METADATA_DIR) {
+          yield* this.walk(key, includePartial);
+        }
+      } else if (includePartial || !entry.name.endsWith(PARTIAL_SUFFIX)) {
+        yield key;
+      }
+    }
+  }
+
+  // Prefix dumps leave one directory per backup behind
+  private async removeEmptyParents(key: string): Promise<void> {
+    for (const base of ['', `${METADATA_DIR}/`]) {
+      let directory = path.posix.dirname(`${base}${key}`);
+      while (directory !== '.' && directory !== METADATA_DIR) {
+        try {
+          await fs.promises.rmdir(this.pathFor(directory));
+        } catch {
+          break; // not empty
+        }
+        directory = path.posix.dirname(directory);
+      }
+    }
+  }
+}
+
+function partialPath(filePath: string): string {
+  return path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomUUID()}${PARTIAL_SUFFIX}`
+  );
+}
+
+function etagOf(body: string): string {
+  return `"${createHash('md5').update(body).digest('hex')}"`;
+}
+
+async function fileEtag(filePath: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return `"${hash.digest('hex')}"`;
+}
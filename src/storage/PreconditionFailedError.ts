@@ -0,0 +1,7 @@
+// A conditional write lost against a concurrent writer
+export class PreconditionFailedError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} was modified concurrently`);
+    this.name = 'PreconditionFailedError';
+  }
+}
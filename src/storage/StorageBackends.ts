@@ -0,0 +1,18 @@
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { StorageBackend } from '../interfaces/StorageBackend';
+import { S3Client } from '../s3/S3Client';
+import { FilesystemBackend } from './FilesystemBackend';
+
+// The backend STORAGE_BACKEND selects for one destination
+export function createStorageBackend(config: BackupConfig): StorageBackend {
+  return config.storageBackend === 'filesystem'
+    ? new FilesystemBackend(config)
+    : new S3Client(config);
+}
+
+// Names the backend in logs; never includes a secret
+export function describeStorage(config: BackupConfig): string {
+  return config.storageBackend === 'filesystem'
+    ? `directory ${config.storagePath}`
+    : `bucket ${config.s3Bucket}${config.s3Url ? ` at ${config.s3Url}` : ''}`;
+}
@@ -0,0 +1,8 @@
+// A write the storage acknowledged but did not keep as sent; uploading the
+// backup again may succeed
+export class UploadVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadVerificationError';
+  }
+}
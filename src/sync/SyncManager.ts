@@ -0,0 +1,313 @@
+import {
+  SyncManager,
+  SyncMethod,
+  SyncOptions,
+  SyncResult,
+} from '../interfaces/SyncManager';
+import { BackupConfig } from '../interfaces/BackupConfig';
+import { StorageBackend, StorageObject } from '../interfaces/StorageBackend';
+import { BackupMetadata } from '../types/BackupMetadata';
+import { BackupCatalog } from '../catalog/BackupCatalog';
+import {
+  DestinationConfig,
+  destinationKey,
+  findDestination,
+} from '../backup/BackupDestinations';
+import { S3Client } from '../s3/S3Client';
+import { MAX_COPY_OBJECT_BYTES, hasObjectLock } from '../s3/StorageOptions';
+import { createStorageBackend } from '../storage/StorageBackends';
+import { CHECKSUM_METADATA_KEY, ChecksumStream } from '../utils/Checksum';
+import { pipeline } from 'stream';
+
+interface SyncLocation {
+  name: string;
+  config: BackupConfig;
+  storage: StorageBackend;
+  catalog: BackupCatalog;
+}
+
+/**
+ * Copies the backups one destination holds and another lacks, so a newly
+ * added destination starts out with the existing history. Backups are matched
+ * by key through the catalogs and compared by checksum, or by size where none
+ * was recorded; a backup that differs is reported and never overwritten.
+ */
+export class SyncManagerImpl implements SyncManager {
+  private config: BackupConfig;
+
+  constructor(config: BackupConfig) {
+    this.config = config;
+  }
+
+  public async executeSync(options: SyncOptions): Promise<SyncResult> {
+    const start = Date.now();
+    const result: SyncResult = {
+      success: true,
+      source: options.source,
+      target: options.target,
+      dryRun: options.dryRun,
+      copied: [],
+      skipped: [],
+      pruned: [],
+      failed: [],
+      duration: 0,
+    };
+    try {
+      if (options.source === options.target) {
+        throw new Error(
+          `Cannot sync ${options.source} onto itself; choose another target`
+        );
+      }
+      const from = findDestination(this.config, options.source);
+      const to = findDestination(this.config, options.target);
+      const copier = canCopyServerSide(from.config, to.config)
+        ? new S3Client(to.config)
+        : undefined;
+      const source = this.location(from);
+      const target = this.location(to, copier);
+
+      const sourceBackups = filterDatabase(
+        await source.catalog.load(),
+        options.database
+      );
+      const targetBackups = filterDatabase(
+        await target.catalog.load(),
+        options.database
+      );
+      const existing = new Map(
+        targetBackups
+          .filter((backup) => backup.status === 'completed')
+          .map((backup) => [backup.s3Key, backup])
+      );
+
+      const recorded: BackupMetadata[] = [];
+      for (const backup of sourceBackups) {
+        if (backup.status !== 'completed') {
+          continue;
+        }
+        const key = destinationKey(source.config, target.config, backup.s3Key);
+        const present = existing.get(key);
+        if (present) {
+          const difference = compareBackups(backup, present);
+          result.skipped.push({
+            key,
+            size: backup.fileSize,
+            reason: difference
+              ? `differs from the source: ${difference}; not overwritten`
+              : `already on ${target.name}`,
+          });
+          continue;
+        }
+
+        if (options.dryRun) {
+          result.copied.push({
+            key,
+            size: backup.fileSize,
+            method:
+              copier &&
+              (backup.prefix || backup.fileSize <= MAX_COPY_OBJECT_BYTES)
+                ? 'copy'
+                : 'stream',
+          });
+          continue;
+        }
+        try {
+          const method = await this.copyBackup(source, target, copier, backup);
+          result.copied.push({ key, size: backup.fileSize, method });
+          recorded.push({ ...backup, s3Key: key });
+          console.log(`Copied ${backup.s3Key} to ${target.name} (${method})`);
+        } catch (error: any) {
+          result.failed.push({
+            key,
+            size: backup.fileSize,
+            error: error?.message || String(error),
+          });
+        }
+      }
+      if (recorded.length > 0) {
+        await target.catalog.record(recorded);
+      }
+
+      if (options.prune) {
+        await this.prune(
+          source,
+          target,
+          sourceBackups,
+          targetBackups,
+          options,
+          result
+        );
+      }
+
+      if (result.failed.length > 0) {
+        result.success = false;
+        result.error = `${result.failed.length} backups could not be synced to ${target.name}`;
+      }
+      return { ...result, duration: Date.now() - start };
+    } catch (error: any) {
+      return {
+        ...result,
+        success: false,
+        duration: Date.now() - start,
+        error: error?.message || String(error),
+      };
+    }
+  }
+
+  private location(
+    { name, config }: DestinationConfig,
+    storage: StorageBackend = createStorageBackend(config)
+  ): SyncLocation {
+    return {
+      name,
+      config,
+      storage,
+      catalog: new BackupCatalog(storage, config),
+    };
+  }
+
+  // Directory dumps stored as a prefix are copied one object at a time
+  private async copyBackup(
+    source: SyncLocation,
+    target: SyncLocation,
+    copier: S3Client | undefined,
+    backup: BackupMetadata
+  ): Promise<SyncMethod> {
+    const objects: Pick<StorageObject, 'key' | 'size'>[] = backup.prefix
+      ? await source.storage.listObjects(`${backup.s3Key}/`)
+      : [{ key: backup.s3Key, size: backup.fileSize }];
+
+    let method: SyncMethod = 'copy';
+    for (const object of objects) {
+      const key = destinationKey(source.config, target.config, object.key);
+      if (copier && object.size <= MAX_COPY_OBJECT_BYTES) {
+        await copier.copyFrom(source.config.s3Bucket || '', object.key, key);
+      } else {
+        await this.streamObject(
+          source,
+          target,
+          object.key,
+          key,
+          backup.prefix ? undefined : backup.checksum
+        );
+        method = 'stream';
+      }
+    }
+    return method;
+  }
+
+  // Downloads and uploads again, checking the bytes against the checksum
+  // recorded at backup time on the way through: the object's own, or the
+  // catalog's for objects that could not carry one. A mismatch fails the
+  // stream before it ends, so the target never stores the object.
+  private async streamObject(
+    source: SyncLocation,
+    target: SyncLocation,
+    sourceKey: string,
+    key: string,
+    recordedChecksum?: string
+  ): Promise<void> {
+    const { body, metadata, contentType } =
+      await source.storage.downloadObject(sourceKey);
+    const expected = metadata[CHECKSUM_METADATA_KEY] || recordedChecksum;
+    const hasher = new ChecksumStream(
+      expected ? { key: sourceKey, checksum: expected } : undefined
+    );
+    await target.storage.uploadStream(
+      pipeline(body, hasher, () => undefined),
+      key,
+      contentType,
+      metadata
+    );
+  }
+
+  private async prune(
+    source: SyncLocation,
+    target: SyncLocation,
+    sourceBackups: BackupMetadata[],
+    targetBackups: BackupMetadata[],
+    options: SyncOptions,
+    result: SyncResult
+  ): Promise<void> {
+    const sourceKeys = new Set(
+      sourceBackups.map((backup) =>
+        destinationKey(source.config, target.config, backup.s3Key)
+      )
+    );
+    const removed: string[] = [];
+    for (const backup of targetBackups) {
+      if (sourceKeys.has(backup.s3Key)) {
+        continue;
+      }
+      if (options.dryRun) {
+        result.pruned.push({ key: backup.s3Key, size: backup.fileSize });
+        continue;
+      }
+      try {
+        const keys = backup.prefix
+          ? (await target.storage.listObjects(`${backup.s3Key}/`)).map(
+              (object) => object.key
+            )
+          : [backup.s3Key];
+        const { errors } = await target.storage.deleteObjects(keys, {
+          allVersions: hasObjectLock(target.config),
+        });
+        if (errors.length > 0) {
+          throw new Error(
+            errors.map((error) => `${error.key}: ${error.error}`).join('; ')
+          );
+        }
+        result.pruned.push({ key: backup.s3Key, size: backup.fileSize });
+        removed.push(backup.s3Key);
+      } catch (error: any) {
+        result.failed.push({
+          key: backup.s3Key,
+          size: backup.fileSize,
+          error: `Prune failed: ${error?.message || String(error)}`,
+        });
+      }
+    }
+    if (removed.length > 0) {
+      await target.catalog.remove(removed);
+    }
+  }
+}
+
+function filterDatabase(
+  backups: BackupMetadata[],
+  database?: string
+): BackupMetadata[] {
+  return database
+    ? backups.filter((backup) => backup.databaseName === database)
+    : backups;
+}
+
+// What sets a target copy apart from the source backup, if anything
+function compareBackups(
+  source: BackupMetadata,
+  target: BackupMetadata
+): string | undefined {
+  if (source.checksum && target.checksum) {
+    return source.checksum === target.checksum
+      ? undefined
+      : `checksum ${target.checksum} instead of ${source.checksum}`;
+  }
+  return source.fileSize === target.fileSize
+    ? undefined
+    : `${target.fileSize} bytes instead of ${source.fileSize}`;
+}
+
+// CopyObject runs with the target's credentials, which then read the source
+// bucket too; other pairs are streamed
+function canCopyServerSide(
+  source: BackupConfig,
+  target: BackupConfig
+): boolean {
+  return (
+    source.storageBackend !== 'filesystem' &&
+    target.storageBackend !== 'filesystem' &&
+    source.s3Url === target.s3Url &&
+    source.s3AccessKey === target.s3AccessKey &&
+    source.s3RoleArn === target.s3RoleArn
+  );
+}
@@ -0,0 +1,54 @@
+import { SyncResult } from '../interfaces/SyncManager';
+import { formatSize } from '../retention/RetentionReport';
+
+// One row per backup looked at, then a line with the totals
+export function formatSyncReport(result: SyncResult): string {
+  const rows = [
+    ['ACTION', 'KEY', 'SIZE', 'NOTE'],
+    ...result.copied.map((backup) => [
+      backup.method || 'copy',
+      backup.key,
+      formatSize(backup.size),
+      '',
+    ]),
+    ...result.skipped.map((backup) => [
+      'skip',
+      backup.key,
+      formatSize(backup.size),
+      backup.reason,
+    ]),
+    ...result.pruned.map((backup) => [
+      'prune',
+      backup.key,
+      formatSize(backup.size),
+      `not on ${result.source}`,
+    ]),
+    ...result.failed.map((backup) => [
+      'failed',
+      backup.key,
+      formatSize(backup.size),
+      backup.error,
+    ]),
+  ];
+  const widths = rows[0]!.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]!.length))
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column === row.length - 1 ? cell : cell.padEnd(widths[column]!)
+      )
+      .join('  ')
+      .trimEnd()
+  );
+
+  const copiedSize = result.copied.reduce(
+    (sum, backup) => sum + backup.size,
+    0
+  );
+  lines.push(
+    '',
+    `Sync from ${result.source} to ${result.target}: ${result.dryRun ? 'would copy' : 'copied'} ${result.copied.length} backups (${formatSize(copiedSize)}), skipped ${result.skipped.length}, ${result.dryRun ? 'would prune' : 'pruned'} ${result.pruned.length}, failed ${result.failed.length}`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,37 @@
+import { formatSyncReport } from '../SyncReport';
+import { SyncResult } from '../../interfaces/SyncManager';
+
+describe('formatSyncReport', () => {
+  const result: SyncResult = {
+    success: false,
+    source: 'primary',
+    target: 'offsite',
+    dryRun: false,
+    copied: [{ key: 'offsite/a.sql.gz', size: 2048, method: 'copy' }],
+    skipped: [
+      { key: 'offsite/b.sql.gz', size: 512, reason: 'already on offsite' },
+    ],
+    pruned: [{ key: 'offsite/old.sql.gz', size: 100 }],
+    failed: [{ key: 'offsite/c.sql.gz', size: 10, error: 'AccessDenied' }],
+    duration: 1200,
+    error: '1 backups could not be synced to offsite',
+  };
+
+  it('lists every backup and the totals', () => {
+    expect(formatSyncReport(result).split('\n')).toEqual([
+      'ACTION  KEY                 SIZE     NOTE',
+      'copy    offsite/a.sql.gz    2.0 KiB',
+      'skip    offsite/b.sql.gz    512 B    already on offsite',
+      'prune   offsite/old.sql.gz  100 B    not on primary',
+      'failed  offsite/c.sql.gz    10 B     AccessDenied',
+      '',
+      'Sync from primary to offsite: copied 1 backups (2.0 KiB), skipped 1, pruned 1, failed 1',
+    ]);
+  });
+
+  it('words a dry run as what would happen', () => {
+    expect(formatSyncReport({ ...result, dryRun: true })).toContain(
+      'would copy 1 backups (2.0 KiB), skipped 1, would prune 1'
+    );
+  });
+});
@@ -1,8 +1,32 @@
+import { CompressionCodec, DumpFormat } from '../interfaces/BackupConfig';
+
+export type BackupStatus = 'completed' | 'failed';
+
+export type BackupKind = 'dump' | 'globals';
+
 export interface BackupMetadata {
   fileName: string;
-  timestamp: Date;
+  timestamp: Date; // start of the run; shared by every object of one run
   databaseName: string;
-  fileSize: number;
-  s3Key: string;
-  compressionRatio: number;
-} 
\ No newline at end of file
+  fileSize: number; // bytes stored in S3
+  s3Key: string; // object key, or the key prefix of a directory dump
+  compressionRatio?: number; // rawSize / fileSize; unknown for rebuilt entries
+  kind: BackupKind;
+  format: DumpFormat;
+  compression: CompressionCodec;
+  prefix: boolean; // directory dump stored as one object per file
+  status: BackupStatus;
+  rawSize?: number; // bytes written by pg_dump before compression
+  duration?: number;
+  pgDumpVersion?: string;
+  serverVersion?: string;
+  checksum?: string;
+  error?: string;
+}
+
+// Layout of the catalog object; timestamps are ISO 8601 strings in JSON
+export interface BackupCatalogDocument {
+  version: 1;
+  updatedAt: string;
+  backups: BackupMetadata[];
+}
@@ -1,14 +1,64 @@
 export interface EnvironmentConfig {
   // Required
-  S3_BUCKET: string;
-  S3_ACCESS_KEY: string;
-  S3_SECRET_KEY: string;
+  S3_BUCKET?: string; // not needed with STORAGE_BACKEND=filesystem
+  S3_ACCESS_KEY?: string;
+  S3_SECRET_KEY?: string;
+  S3_ROLE_ARN?: string;
+  S3_ROLE_EXTERNAL_ID?: string;
+  S3_ROLE_SESSION_NAME?: string;
   POSTGRES_CONNECTION_STRING: string;
   BACKUP_INTERVAL: string;
-  
+
   // Optional
+  STORAGE_BACKEND?: string;
+  STORAGE_PATH?: string;
   S3_URL?: string;
   S3_PATH?: string;
   BACKUP_RETENTION_DAYS?: string;
+  BACKUP_RETENTION_HOURLY?: string;
+  BACKUP_RETENTION_DAILY?: string;
+  BACKUP_RETENTION_WEEKLY?: string;
+  BACKUP_RETENTION_MONTHLY?: string;
+  BACKUP_RETENTION_YEARLY?: string;
+  BACKUP_RETENTION_KEEP_LAST?: string;
+  BACKUP_RETENTION_MIN_BACKUPS?: string;
+  BACKUP_RETENTION_DRY_RUN?: string;
+  BACKUP_TIERING?: string;
+  PRESIGN_EXPIRY_SECONDS?: string;
+  PRESIGN_MAX_EXPIRY_SECONDS?: string;
   LOG_LEVEL?: string;
-} 
\ No newline at end of file
+  BACKUP_NAME_TEMPLATE?: string;
+  BACKUP_UPLOAD_MODE?: string;
+  S3_MULTIPART_PART_SIZE_MB?: string;
+  S3_MULTIPART_CONCURRENCY?: string;
+  S3_REGION?: string;
+  S3_STORAGE_CLASS?: string;
+  S3_SSE?: string;
+  S3_SSE_KMS_KEY_ID?: string;
+  S3_OBJECT_TAGS?: string;
+  S3_ACL?: string;
+  S3_OBJECT_LOCK_MODE?: string;
+  S3_OBJECT_LOCK_DAYS?: string;
+  S3_OBJECT_LOCK_LEGAL_HOLD?: string;
+  S3_STALE_UPLOAD_HOURS?: string;
+  S3_VERIFY_UPLOADS?: string;
+  S3_UPLOAD_RETRY_ATTEMPTS?: string;
+  S3_UPLOAD_RETRY_DELAY_MS?: string;
+  // Each name also reads BACKUP_DESTINATION_<NAME>_S3_* and _BACKUP_RETENTION_*
+  BACKUP_DESTINATIONS?: string;
+  BACKUP_DESTINATION_QUORUM?: string;
+  PG_DUMP_FORMAT?: string;
+  PG_DUMP_JOBS?: string;
+  BACKUP_COMPRESSION?: string;
+  BACKUP_COMPRESSION_LEVEL?: string;
+  PG_DUMP_DIRECTORY_UPLOAD?: string;
+  BACKUP_ALL_DATABASES?: string;
+  BACKUP_INCLUDE_DATABASES?: string;
+  BACKUP_EXCLUDE_DATABASES?: string;
+  BACKUP_DATABASE_CONCURRENCY?: string;
+  BACKUP_GLOBALS?: string;
+  BACKUP_GLOBALS_REDACT_PASSWORDS?: string;
+  PG_CREDENTIALS_MODE?: string;
+  BACKUP_ENCRYPTION_KEY_FILE?: string;
+  BACKUP_ENCRYPTION_PASSPHRASE?: string;
+}
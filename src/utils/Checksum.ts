@@ -0,0 +1,62 @@
+import { createHash, Hash } from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import * as fs from 'fs';
+
+// Object metadata key holding the hex SHA-256 of the stored bytes
+export const CHECKSUM_METADATA_KEY = 'sha256';
+
+// The checksum a stream is expected to have, and the object it belongs to
+export interface ExpectedChecksum {
+  key: string;
+  checksum: string;
+}
+
+/**
+ * Pass-through stream that hashes everything flowing through it. The digest
+ * is set once the stream has ended. Given the checksum to expect, it fails
+ * instead of ending when the bytes differ, so whatever reads from it never
+ * finishes writing them.
+ */
+export class ChecksumStream extends Transform {
+  private hash: Hash = createHash('sha256');
+  private expected: ExpectedChecksum | undefined;
+  public digest: string | undefined;
+  public bytes = 0;
+
+  constructor(expected?: ExpectedChecksum) {
+    super();
+    this.expected = expected;
+  }
+
+  public override _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+
+  public override _flush(callback: TransformCallback): void {
+    this.digest = this.hash.digest('hex');
+    if (this.expected && this.digest !== this.expected.checksum) {
+      callback(
+        new Error(
+          `Checksum mismatch for ${this.expected.key}: expected ${this.expected.checksum}, got ${this.digest}`
+        )
+      );
+      return;
+    }
+    callback();
+  }
+}
+
+// Hex SHA-256 of a file on disk
+export async function fileChecksum(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
@@ -3,7 +3,9 @@ import winston from 'winston';
 const SENSITIVE_KEYS = [
   's3AccessKey',
   's3SecretKey',
+  's3RoleExternalId',
   'postgresConnectionString',
+  'encryptionPassphrase',
   'password',
   'secret',
 ];
@@ -0,0 +1,35 @@
+export class PatternMatcher {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  constructor(include: string[] = [], exclude: string[] = []) {
+    this.include = include.map(PatternMatcher.compile);
+    this.exclude = exclude.map(PatternMatcher.compile);
+  }
+
+  public matches(name: string): boolean {
+    if (this.include.length > 0 && !this.include.some((re) => re.test(name))) {
+      return false;
+    }
+    return !this.exclude.some((re) => re.test(name));
+  }
+
+  // "/pattern/flags" is a regular expression; anything else is a glob
+  // where * matches any run of characters and ? a single character
+  public static compile(pattern: string): RegExp {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex && regex[1]) {
+      return new RegExp(regex[1], regex[2]);
+    }
+
+    const source = pattern
+      .split('')
+      .map((char) => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+}
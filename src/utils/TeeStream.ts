@@ -0,0 +1,30 @@
+import { PassThrough, Readable } from 'stream';
+
+/**
+ * Splits one readable into several branches that each receive every chunk.
+ * The source moves at the pace of the slowest branch, so a consumer that
+ * gives up must be detached to let the others continue.
+ */
+export class TeeStream {
+  public readonly branches: PassThrough[];
+  private source: Readable;
+
+  constructor(source: Readable, count: number) {
+    this.source = source;
+    this.branches = Array.from({ length: count }, () => new PassThrough());
+    for (const branch of this.branches) {
+      source.pipe(branch);
+    }
+    // pipe() does not forward errors; without this the branches never end
+    source.on('error', (error) => {
+      for (const branch of this.branches) {
+        branch.destroy(error);
+      }
+    });
+  }
+
+  public detach(branch: PassThrough): void {
+    this.source.unpipe(branch);
+    branch.destroy();
+  }
+}
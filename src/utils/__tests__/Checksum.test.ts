@@ -0,0 +1,70 @@
+import { ChecksumStream, fileChecksum } from '../Checksum';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('ChecksumStream', () => {
+  it('passes data through and exposes the SHA-256 once ended', async () => {
+    const hasher = new ChecksumStream();
+    const output: Buffer[] = [];
+
+    expect(hasher.digest).toBeUndefined();
+    for await (const chunk of Readable.from([
+      Buffer.from('SELECT '),
+      Buffer.from('1;'),
+    ]).pipe(hasher)) {
+      output.push(chunk);
+    }
+
+    expect(Buffer.concat(output).toString()).toBe('SELECT 1;');
+    expect(hasher.bytes).toBe(9);
+    expect(hasher.digest).toBe(
+      createHash('sha256').update('SELECT 1;').digest('hex')
+    );
+  });
+});
+
+describe('ChecksumStream with an expected checksum', () => {
+  const consume = async (hasher: ChecksumStream) => {
+    for await (const _chunk of Readable.from(['SELECT 1;']).pipe(hasher)) {
+      // drain
+    }
+  };
+
+  it('ends when the bytes match', async () => {
+    const checksum = createHash('sha256').update('SELECT 1;').digest('hex');
+
+    await expect(
+      consume(new ChecksumStream({ key: 'backups/a.sql', checksum }))
+    ).resolves.toBeUndefined();
+  });
+
+  it('fails instead of ending when they do not', async () => {
+    const hasher = new ChecksumStream({
+      key: 'backups/a.sql',
+      checksum: 'abc',
+    });
+
+    await expect(consume(hasher)).rejects.toThrow(
+      `Checksum mismatch for backups/a.sql: expected abc, got ${createHash('sha256').update('SELECT 1;').digest('hex')}`
+    );
+  });
+});
+
+describe('fileChecksum', () => {
+  it('hashes the file on disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'checksum-'));
+    const file = path.join(dir, 'toc.dat');
+    fs.writeFileSync(file, 'SELECT 1;');
+
+    try {
+      expect(await fileChecksum(file)).toBe(
+        createHash('sha256').update('SELECT 1;').digest('hex')
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { mapWithConcurrency } from '../Concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    await expect(
+      mapWithConcurrency([], 4, async () => 'never')
+    ).resolves.toEqual([]);
+  });
+});
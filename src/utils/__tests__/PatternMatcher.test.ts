@@ -0,0 +1,45 @@
+import { PatternMatcher } from '../PatternMatcher';
+
+describe('PatternMatcher', () => {
+  it('matches everything without patterns', () => {
+    const matcher = new PatternMatcher();
+    expect(matcher.matches('postgres')).toBe(true);
+    expect(matcher.matches('tenant_1')).toBe(true);
+  });
+
+  it('supports glob include patterns', () => {
+    const matcher = new PatternMatcher(['tenant_*', 'app?']);
+    expect(matcher.matches('tenant_1')).toBe(true);
+    expect(matcher.matches('app1')).toBe(true);
+    expect(matcher.matches('app12')).toBe(false);
+    expect(matcher.matches('postgres')).toBe(false);
+  });
+
+  it('treats regex metacharacters in globs literally', () => {
+    const matcher = new PatternMatcher(['db.prod']);
+    expect(matcher.matches('db.prod')).toBe(true);
+    expect(matcher.matches('dbxprod')).toBe(false);
+  });
+
+  it('supports /regex/ patterns with flags', () => {
+    const matcher = new PatternMatcher(['/^tenant_\\d+$/i']);
+    expect(matcher.matches('TENANT_42')).toBe(true);
+    expect(matcher.matches('tenant_x')).toBe(false);
+  });
+
+  it('applies excludes after includes', () => {
+    const matcher = new PatternMatcher(
+      ['tenant_*'],
+      ['*_test', '/^tenant_0$/']
+    );
+    expect(matcher.matches('tenant_1')).toBe(true);
+    expect(matcher.matches('tenant_1_test')).toBe(false);
+    expect(matcher.matches('tenant_0')).toBe(false);
+  });
+
+  it('excludes without includes', () => {
+    const matcher = new PatternMatcher([], ['postgres']);
+    expect(matcher.matches('postgres')).toBe(false);
+    expect(matcher.matches('app')).toBe(true);
+  });
+});
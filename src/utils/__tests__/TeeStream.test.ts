@@ -0,0 +1,49 @@
+import { PassThrough, Readable } from 'stream';
+import { TeeStream } from '../TeeStream';
+
+async function collect(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('TeeStream', () => {
+  it('copies every chunk to each branch', async () => {
+    const tee = new TeeStream(Readable.from(['a', 'b', 'c']), 3);
+
+    const results = await Promise.all(tee.branches.map(collect));
+
+    expect(results).toEqual(['abc', 'abc', 'abc']);
+  });
+
+  it('keeps feeding the other branches once one is detached', async () => {
+    const source = new PassThrough();
+    const tee = new TeeStream(source, 2);
+    const [kept, dropped] = tee.branches;
+    const result = collect(kept!);
+
+    // Large enough to fill the dropped branch's buffer
+    const chunk = Buffer.alloc(64 * 1024, 'x');
+    source.write(chunk);
+    tee.detach(dropped!);
+    source.write(chunk);
+    source.end();
+
+    expect((await result).length).toBe(2 * chunk.length);
+    expect(dropped!.destroyed).toBe(true);
+  });
+
+  it('fails every branch when the source fails', async () => {
+    const source = new PassThrough();
+    const tee = new TeeStream(source, 2);
+    const results = tee.branches.map((branch) => collect(branch));
+
+    source.destroy(new Error('pg_dump exited with code 1'));
+
+    for (const result of results) {
+      await expect(result).rejects.toThrow('pg_dump exited with code 1');
+    }
+  });
+});